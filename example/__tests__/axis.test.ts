@@ -0,0 +1,74 @@
+import Animated from 'react-native-reanimated';
+import {
+  acrossAxis,
+  acrossAxisNode,
+  alongAxis,
+  alongAxisNode,
+  getAxisLength,
+  getAxisTransform,
+  getCellTransform,
+} from '../src/axis';
+
+jest.mock('react-native-reanimated', () =>
+  require('react-native-reanimated/mock'),
+);
+
+// The mock evaluates nodes as they are built
+const getValue = (node: any) => node[' __value'];
+
+describe('alongAxis', () => {
+  it('picks y for vertical lists and x for horizontal ones', () => {
+    expect(alongAxis(false, 'x', 'y')).toBe('y');
+    expect(alongAxis(undefined, 'x', 'y')).toBe('y');
+    expect(alongAxis(true, 'x', 'y')).toBe('x');
+  });
+
+  it('picks the other coordinate across the list', () => {
+    expect(acrossAxis(false, 'x', 'y')).toBe('x');
+    expect(acrossAxis(true, 'x', 'y')).toBe('y');
+  });
+});
+
+describe('alongAxisNode', () => {
+  it('follows the direction node', () => {
+    const isHorizontal = new Animated.Value<number>(0);
+    expect(alongAxisNode(isHorizontal, 3, 5)).toBe(5);
+    expect(acrossAxisNode(isHorizontal, 3, 5)).toBe(3);
+    isHorizontal.setValue(1);
+    expect(alongAxisNode(isHorizontal, 3, 5)).toBe(3);
+    expect(acrossAxisNode(isHorizontal, 3, 5)).toBe(5);
+  });
+});
+
+describe('getCellTransform', () => {
+  const evaluate = (transform: {[key: string]: unknown}[]) =>
+    transform.map((translate) => {
+      const [[key, node]] = Object.entries(translate);
+      return {[key]: Number(getValue(node))};
+    });
+
+  it('only translates along the list', () => {
+    expect(evaluate(getCellTransform(new Animated.Value(0), 10))).toEqual([
+      {translateX: 0},
+      {translateY: 10},
+    ]);
+    expect(evaluate(getCellTransform(new Animated.Value(1), 10))).toEqual([
+      {translateX: 10},
+      {translateY: 0},
+    ]);
+  });
+});
+
+describe('getAxisTransform', () => {
+  it('translates along the list', () => {
+    expect(getAxisTransform(false, 10)).toEqual([{translateY: 10}]);
+    expect(getAxisTransform(true, 10)).toEqual([{translateX: 10}]);
+  });
+});
+
+describe('getAxisLength', () => {
+  it('sizes along the list', () => {
+    expect(getAxisLength(false, 40)).toEqual({height: 40});
+    expect(getAxisLength(true, 40)).toEqual({width: 40});
+  });
+});
@@ -0,0 +1,107 @@
+import 'react-native-gesture-handler/jestSetup';
+import React from 'react';
+import {Text} from 'react-native';
+import renderer from 'react-test-renderer';
+import DraggableSectionList, {DraggableSectionListHandle} from '../src';
+
+jest.mock('react-native-reanimated', () =>
+  require('react-native-reanimated/mock'),
+);
+
+type Cell = {key: string};
+
+const data = [
+  {section: {key: 'A'}, data: [{key: 'a1'}, {key: 'a2'}, {key: 'a3'}]},
+  {section: {key: 'B'}, data: [{key: 'b1'}]},
+];
+
+const getOrder = ({data: sections}: {data: typeof data}) =>
+  sections.map(({section, data: items}) => [
+    section.key,
+    ...items.map(({key}) => key),
+  ]);
+
+function renderList(props: object) {
+  let handle: DraggableSectionListHandle | undefined;
+  renderer.create(
+    <DraggableSectionList<Cell, Cell>
+      data={data}
+      sections={data}
+      keyExtractor={(cell) => cell.key}
+      renderItem={({item}) => <Text>{item.item.key}</Text>}
+      renderSectionHeader={({section}) => <Text>{section.section.key}</Text>}
+      onRef={(ref) => {
+        handle = ref;
+      }}
+      {...props}
+    />,
+  );
+  return handle!;
+}
+
+describe('moveItem', () => {
+  it('moves items like a drop would', () => {
+    const onDragEnd = jest.fn();
+    renderList({onDragEnd}).moveItem('a3', 1, 1);
+    expect(getOrder(onDragEnd.mock.calls[0][0])).toEqual([
+      ['A', 'a1', 'a2'],
+      ['B', 'b1', 'a3'],
+    ]);
+  });
+
+  it('does not move items past locked ones', () => {
+    const onDragEnd = jest.fn();
+    const onDropRejected = jest.fn();
+    renderList({
+      onDragEnd,
+      onDropRejected,
+      isItemLocked: (item: Cell) => item.key === 'a1',
+    }).moveItem('a3', 0, 0);
+    expect(onDragEnd).not.toHaveBeenCalled();
+    expect(onDropRejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not move locked items', () => {
+    const onDragEnd = jest.fn();
+    renderList({
+      onDragEnd,
+      isItemLocked: (item: Cell) => item.key === 'a1',
+    }).moveItem('a1', 0, 2);
+    expect(onDragEnd).not.toHaveBeenCalled();
+  });
+
+  it('does not move items across sections when that is denied', () => {
+    const onDragEnd = jest.fn();
+    const onDropRejected = jest.fn();
+    renderList({
+      onDragEnd,
+      onDropRejected,
+      crossSectionMoves: 'deny',
+    }).moveItem('a3', 1, 0);
+    expect(onDragEnd).not.toHaveBeenCalled();
+    expect(onDropRejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks canDrop', () => {
+    const onDragEnd = jest.fn();
+    const onDropRejected = jest.fn();
+    const canDrop = jest.fn((_params: object) => false);
+    renderList({onDragEnd, onDropRejected, canDrop}).moveItem('a3', 0, 0);
+    expect(canDrop).toHaveBeenCalledTimes(1);
+    expect(onDragEnd).not.toHaveBeenCalled();
+    expect(onDropRejected).toHaveBeenCalledWith(canDrop.mock.calls[0][0]);
+  });
+
+  it('reports the move when saving the order throws', () => {
+    const onDragEnd = jest.fn();
+    const persistenceAdapter = {
+      get: () => null,
+      set: () => {
+        throw new Error('Quota exceeded');
+      },
+    };
+    const handle = renderList({onDragEnd, persistenceAdapter});
+    expect(() => handle.moveItem('a3', 0, 0)).not.toThrow();
+    expect(onDragEnd).toHaveBeenCalledTimes(1);
+  });
+});
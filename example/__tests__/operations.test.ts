@@ -0,0 +1,111 @@
+import {getReorderOperations, toJsonPatch} from '../src/operations';
+
+type Cell = {key: string};
+
+const keyExtractor = (cell: Cell) => cell.key;
+const toSections = (order: {[sectionKey: string]: string[]}) =>
+  Object.keys(order).map((sectionKey) => ({
+    section: {key: sectionKey},
+    data: order[sectionKey].map((key) => ({key})),
+  }));
+
+describe('getReorderOperations', () => {
+  it('returns nothing when the order is the same', () => {
+    const sections = toSections({A: ['a1', 'a2'], B: ['b1']});
+    expect(getReorderOperations(sections, sections, keyExtractor)).toEqual([]);
+  });
+
+  it('moves only the item that changed places', () => {
+    const before = toSections({A: ['a1', 'a2', 'a3', 'a4']});
+    const after = toSections({A: ['a1', 'a4', 'a2', 'a3']});
+    expect(getReorderOperations(before, after, keyExtractor)).toEqual([
+      {
+        op: 'move',
+        key: 'a4',
+        toSectionKey: 'A',
+        afterKey: 'a1',
+        beforeKey: 'a2',
+      },
+    ]);
+  });
+
+  it('moves sections before items', () => {
+    const before = toSections({A: ['a1'], B: ['b1']});
+    const after = toSections({B: ['a1', 'b1'], A: []});
+    expect(getReorderOperations(before, after, keyExtractor)).toEqual([
+      {op: 'moveSection', key: 'B', afterKey: null, beforeKey: 'A'},
+      {
+        op: 'move',
+        key: 'a1',
+        toSectionKey: 'B',
+        afterKey: null,
+        beforeKey: 'b1',
+      },
+    ]);
+  });
+
+  it('moves in items that only exist after', () => {
+    const before = toSections({A: ['a1']});
+    const after = toSections({A: ['a1', 'n']});
+    expect(getReorderOperations(before, after, keyExtractor)).toEqual([
+      {
+        op: 'move',
+        key: 'n',
+        toSectionKey: 'A',
+        afterKey: 'a1',
+        beforeKey: null,
+      },
+    ]);
+  });
+});
+
+describe('toJsonPatch', () => {
+  const getPatch = (
+    before: ReturnType<typeof toSections>,
+    after: ReturnType<typeof toSections>,
+  ) =>
+    toJsonPatch(
+      before,
+      getReorderOperations(before, after, keyExtractor),
+      keyExtractor,
+    );
+
+  it('moves items within a section', () => {
+    const before = toSections({A: ['a1', 'a2', 'a3']});
+    const after = toSections({A: ['a3', 'a1', 'a2']});
+    expect(getPatch(before, after)).toEqual([
+      {op: 'move', from: '/0/data/2', path: '/0/data/0'},
+    ]);
+  });
+
+  it('moves sections and items between sections', () => {
+    const before = toSections({A: ['a1', 'a2'], B: ['b1']});
+    const after = toSections({B: ['b1', 'a2'], A: ['a1']});
+    expect(getPatch(before, after)).toEqual([
+      {op: 'move', from: '/1', path: '/0'},
+      {op: 'move', from: '/1/data/1', path: '/0/data/1'},
+    ]);
+  });
+
+  it('leaves out items that only exist after', () => {
+    const before = toSections({A: ['a1']});
+    const after = toSections({A: ['n', 'a1']});
+    expect(getPatch(before, after)).toEqual([]);
+  });
+
+  it('moves items after the closest neighbour that was not left out', () => {
+    const before = toSections({A: ['a1', 'a2'], B: ['b1', 'b2']});
+    const after = toSections({A: ['a2'], B: ['b1', 'n', 'a1', 'b2']});
+    expect(getPatch(before, after)).toEqual([
+      {op: 'move', from: '/0/data/0', path: '/1/data/1'},
+    ]);
+  });
+
+  it('moves items to the start after neighbours that were left out', () => {
+    const before = toSections({A: ['a1'], B: ['b1']});
+    const after = toSections({A: [], B: ['n', 'a1', 'b1']});
+    expect(getPatch(before, after)).toEqual([
+      {op: 'move', from: '/0/data/0', path: '/1/data/0'},
+    ]);
+  });
+});
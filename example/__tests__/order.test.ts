@@ -0,0 +1,71 @@
+import {applyOrder, serializeOrder} from '../src/order';
+
+type Cell = {key: string};
+
+const keyExtractor = (cell: Cell) => cell.key;
+const toSections = (order: {[sectionKey: string]: string[]}) =>
+  Object.keys(order).map((sectionKey) => ({
+    section: {key: sectionKey},
+    data: order[sectionKey].map((key) => ({key})),
+  }));
+const getOrder = (sections: ReturnType<typeof toSections>) =>
+  serializeOrder(sections, keyExtractor);
+
+describe('serializeOrder', () => {
+  it('saves the keys of sections and their items', () => {
+    expect(getOrder(toSections({A: ['a1', 'a2'], B: []}))).toEqual({
+      sectionKeys: ['A', 'B'],
+      itemKeysBySection: {A: ['a1', 'a2'], B: []},
+    });
+  });
+});
+
+describe('applyOrder', () => {
+  const restore = (
+    fresh: {[sectionKey: string]: string[]},
+    saved: {[sectionKey: string]: string[]},
+    unknownItems?: 'append' | 'prepend',
+  ) =>
+    getOrder(
+      applyOrder(toSections(fresh), getOrder(toSections(saved)), {
+        keyExtractor,
+        unknownItems,
+      }),
+    );
+
+  it('restores the saved order', () => {
+    expect(
+      restore({A: ['a1', 'a2'], B: ['b1']}, {B: ['b1'], A: ['a2', 'a1']}),
+    ).toEqual(getOrder(toSections({B: ['b1'], A: ['a2', 'a1']})));
+  });
+
+  it('skips saved keys that are gone', () => {
+    expect(restore({A: ['a2']}, {B: ['b1'], A: ['a1', 'a2']})).toEqual(
+      getOrder(toSections({A: ['a2']})),
+    );
+  });
+
+  it('puts items back into the section they were saved in', () => {
+    expect(restore({A: ['a1', 'b1'], B: []}, {A: ['a1'], B: ['b1']})).toEqual(
+      getOrder(toSections({A: ['a1'], B: ['b1']})),
+    );
+  });
+
+  it('appends items and sections that were never saved', () => {
+    expect(restore({C: ['c1'], A: ['n', 'a1']}, {A: ['a1']})).toEqual(
+      getOrder(toSections({A: ['a1', 'n'], C: ['c1']})),
+    );
+  });
+
+  it('prepends items and sections that were never saved', () => {
+    expect(
+      restore({A: ['a1', 'n'], C: ['c1']}, {A: ['a1']}, 'prepend'),
+    ).toEqual(getOrder(toSections({C: ['c1'], A: ['n', 'a1']})));
+  });
+
+  it('keeps the data of the fresh sections and items', () => {
+    const fresh = [{section: {key: 'A', title: 'new'}, data: [{key: 'a1'}]}];
+    const saved = getOrder(toSections({A: ['a1']}));
+    expect(applyOrder(fresh, saved, {keyExtractor})).toEqual(fresh);
+  });
+});
@@ -0,0 +1,53 @@
+import 'react-native-gesture-handler/jestSetup';
+import React from 'react';
+import {Text} from 'react-native';
+import renderer from 'react-test-renderer';
+import DraggableSectionList, {serializeOrder} from '../src';
+
+jest.mock('react-native-reanimated', () =>
+  require('react-native-reanimated/mock'),
+);
+
+type Cell = {key: string};
+
+const keyExtractor = (cell: Cell) => cell.key;
+const savedData = [{section: {key: 'A'}, data: [{key: 'a1'}, {key: 'a2'}]}];
+// A row was added at the top since the order was saved
+const data = [
+  {section: {key: 'A'}, data: [{key: 'n'}, {key: 'a1'}, {key: 'a2'}]},
+];
+
+async function restore(props: object) {
+  const onRestoreOrder = jest.fn();
+  renderer.create(
+    <DraggableSectionList<Cell, Cell>
+      data={data}
+      sections={data}
+      keyExtractor={keyExtractor}
+      renderItem={({item}) => <Text>{item.item.key}</Text>}
+      renderSectionHeader={({section}) => <Text>{section.section.key}</Text>}
+      persistenceAdapter={{
+        get: () => serializeOrder(savedData, keyExtractor),
+        set: () => {},
+      }}
+      onRestoreOrder={onRestoreOrder}
+      {...props}
+    />,
+  );
+  await new Promise((resolve) => setImmediate(resolve));
+  return onRestoreOrder;
+}
+
+describe('persistenceUnknownItems', () => {
+  it('appends rows that were not saved by default', async () => {
+    const onRestoreOrder = await restore({});
+    expect(onRestoreOrder).toHaveBeenCalledWith([
+      {section: {key: 'A'}, data: [{key: 'a1'}, {key: 'a2'}, {key: 'n'}]},
+    ]);
+  });
+
+  it('keeps rows that were not saved at the top when prepending', async () => {
+    const onRestoreOrder = await restore({persistenceUnknownItems: 'prepend'});
+    expect(onRestoreOrder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  getRankBetween,
+  getRebalancedRanks,
+  maxRankLength,
+  needsRebalance,
+} from '../src/rank';
+
+const isSorted = (ranks: string[]) =>
+  ranks.every((rank, i) => i === 0 || ranks[i - 1] < rank);
+
+describe('getRankBetween', () => {
+  it('ranks the only item in the middle', () => {
+    expect(getRankBetween(null, null)).toBe('i');
+  });
+
+  it('ranks between and after existing ranks', () => {
+    expect(getRankBetween('a', 'c')).toBe('b');
+    expect(getRankBetween('a', null)).toBe('n');
+  });
+
+  it('goes a digit deeper between adjacent digits', () => {
+    const rank = getRankBetween('a', 'b');
+    expect(rank).toBe('ai');
+    expect(isSorted(['a', rank, 'b'])).toBe(true);
+  });
+
+  it('keeps ranking at the start above the empty rank', () => {
+    const ranks = ['i'];
+    for (let i = 0; i < 50; i++) {
+      ranks.unshift(getRankBetween(null, ranks[0]));
+    }
+    expect(isSorted(['', ...ranks])).toBe(true);
+    expect(ranks.some((rank) => rank.endsWith('0'))).toBe(false);
+  });
+
+  it('grows ranks until they need rebalancing', () => {
+    let rank = getRankBetween(null, null);
+    const next = getRankBetween(rank, null);
+    for (let i = 0; i < 100 && !needsRebalance(rank); i++) {
+      rank = getRankBetween(rank, next);
+    }
+    expect(rank.length).toBe(maxRankLength + 1);
+    expect(isSorted([rank, next])).toBe(true);
+  });
+});
+
+describe('getRebalancedRanks', () => {
+  it('spreads ranks evenly', () => {
+    expect(getRebalancedRanks(1)).toEqual(['i']);
+    expect(getRebalancedRanks(3)).toEqual(['9', 'i', 'r']);
+  });
+
+  it('keeps ranks sorted and free of trailing zeros past 36 items', () => {
+    const ranks = getRebalancedRanks(100);
+    expect(ranks).toHaveLength(100);
+    expect(isSorted(ranks)).toBe(true);
+    expect(ranks.every((rank) => rank.length <= 2)).toBe(true);
+    expect(ranks.some((rank) => rank.endsWith('0'))).toBe(false);
+  });
+});
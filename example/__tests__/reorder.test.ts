@@ -0,0 +1,70 @@
+import {flattenSections, moveFlatIndex, regroupSections} from '../src/reorder';
+
+const sections = [
+  {section: 'A', data: ['a1', 'a2']},
+  {section: 'B', data: []},
+  {section: 'C', data: ['c1']},
+];
+const isSectionHeader = (cell: string) => /^[A-Z]$/.test(cell);
+
+describe('flattenSections', () => {
+  it('lists each header in front of its items', () => {
+    expect(flattenSections(sections)).toEqual({
+      cells: ['A', 'a1', 'a2', 'B', 'C', 'c1'],
+      ranges: [
+        {start: 0, end: 2},
+        {start: 3, end: 3},
+        {start: 4, end: 5},
+      ],
+    });
+  });
+});
+
+describe('moveFlatIndex', () => {
+  const cells = ['a', 'b', 'c', 'd', 'e'];
+
+  it('moves a cell up in front of the cell at the spacer index', () => {
+    expect(moveFlatIndex(cells, 3, 1)).toEqual(['a', 'd', 'b', 'c', 'e']);
+  });
+
+  it('moves a cell down behind the cell at the spacer index', () => {
+    expect(moveFlatIndex(cells, 1, 3)).toEqual(['a', 'c', 'd', 'b', 'e']);
+  });
+
+  it('moves a block of cells', () => {
+    expect(moveFlatIndex(cells, 0, 3, 2)).toEqual(['c', 'd', 'a', 'b', 'e']);
+    expect(moveFlatIndex(cells, 3, 0, 2)).toEqual(['d', 'e', 'a', 'b', 'c']);
+  });
+
+  it('leaves the cells in place when dropped where they were', () => {
+    expect(moveFlatIndex(cells, 2, 2)).toEqual(cells);
+  });
+});
+
+describe('regroupSections', () => {
+  it('rebuilds the sections it was flattened from', () => {
+    const {cells} = flattenSections(sections);
+    expect(regroupSections(cells, isSectionHeader)).toEqual(sections);
+  });
+
+  it('keeps empty sections', () => {
+    expect(regroupSections(['A', 'B', 'b1', 'C'], isSectionHeader)).toEqual([
+      {section: 'A', data: []},
+      {section: 'B', data: ['b1']},
+      {section: 'C', data: []},
+    ]);
+  });
+
+  it('prepends items dropped before the first header to the first section', () => {
+    expect(
+      regroupSections(['a0', 'A', 'a1', 'B', 'b1'], isSectionHeader),
+    ).toEqual([
+      {section: 'A', data: ['a0', 'a1']},
+      {section: 'B', data: ['b1']},
+    ]);
+  });
+
+  it('returns no sections without a header', () => {
+    expect(regroupSections(['a1', 'a2'], isSectionHeader)).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import React from 'react';
+import {
+  GestureResponderEvent,
+  StyleProp,
+  View,
+  ViewProps,
+  ViewStyle,
+} from 'react-native';
+
+export type DragActivation = 'longPress' | 'immediate' | 'handle';
+
+// Moving the finger farther than this before a long press completes means
+// the touch is a scroll, not a drag
+const longPressSlop = 10;
+
+/** Starts a drag of the row it is rendered in */
+export const RowDragContext = React.createContext<(() => void) | null>(null);
+
+type DragHandleProps = ViewProps & {
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Starts the drag of its row as soon as it is touched. Rendered in the
+ * hovering component it does nothing.
+ */
+export function DragHandle({onTouchStart, ...props}: DragHandleProps) {
+  const drag = React.useContext(RowDragContext);
+  const onHandleTouchStart = (event: GestureResponderEvent) => {
+    if (drag) drag();
+    if (onTouchStart) onTouchStart(event);
+  };
+  return <View {...props} onTouchStart={onHandleTouchStart} />;
+}
+
+type DragActivatorProps = {
+  activation?: DragActivation;
+  longPressDelay: number;
+  onActivate: () => void;
+  children: React.ReactNode;
+};
+
+/**
+ * Starts the drag of a row when the whole row is pressed. Raw touch events
+ * don't claim the responder, so touchables inside the row still get their
+ * taps and the list can still scroll until the drag starts.
+ */
+export class DragActivator extends React.PureComponent<DragActivatorProps> {
+  timeout?: ReturnType<typeof setTimeout>;
+  touchStart = {x: 0, y: 0};
+
+  clearTimeout = () => {
+    if (this.timeout !== undefined) clearTimeout(this.timeout);
+    this.timeout = undefined;
+  };
+
+  onTouchStart = ({nativeEvent}: GestureResponderEvent) => {
+    const {activation, longPressDelay, onActivate} = this.props;
+    if (activation === 'immediate') {
+      onActivate();
+      return;
+    }
+    this.touchStart = {x: nativeEvent.pageX, y: nativeEvent.pageY};
+    this.clearTimeout();
+    this.timeout = setTimeout(() => {
+      this.timeout = undefined;
+      onActivate();
+    }, longPressDelay);
+  };
+
+  onTouchMove = ({nativeEvent}: GestureResponderEvent) => {
+    const dx = nativeEvent.pageX - this.touchStart.x;
+    const dy = nativeEvent.pageY - this.touchStart.y;
+    if (Math.abs(dx) > longPressSlop || Math.abs(dy) > longPressSlop) {
+      this.clearTimeout();
+    }
+  };
+
+  componentWillUnmount() {
+    this.clearTimeout();
+  }
+
+  render() {
+    const {activation, children} = this.props;
+    if (activation !== 'longPress' && activation !== 'immediate') {
+      return children;
+    }
+    return (
+      <View
+        onTouchStart={this.onTouchStart}
+        onTouchMove={this.onTouchMove}
+        onTouchEnd={this.clearTimeout}
+        onTouchCancel={this.clearTimeout}>
+        {children}
+      </View>
+    );
+  }
+}
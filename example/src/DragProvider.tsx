@@ -0,0 +1,363 @@
+import React from 'react';
+import {StyleSheet, View, ViewStyle, StyleProp} from 'react-native';
+import Animated from 'react-native-reanimated';
+import {CellPosition} from './reorder';
+
+const {Value} = Animated;
+
+export type Bounds = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ActiveDrag = {
+  activeKey: string;
+  // The dragged items in list order, with their keys and where they came from
+  items: any[];
+  keys: string[];
+  positions: CellPosition[];
+  hoverComponent: React.ReactNode;
+  horizontal: boolean;
+  // Length of the hovering cells along the list's axis
+  size: number;
+};
+
+export type ListDragParams = {
+  item: any;
+  key: string;
+  fromListId: string;
+  listId: string;
+};
+
+export type ListRegistration = {
+  measure: () => Promise<Bounds>;
+  onItemEnter: (params: ListDragParams) => void;
+  onItemLeave: (params: ListDragParams) => void;
+  // The source list hides its own hover component while the item is over
+  // another list and stops reordering its cells
+  onHandOver: (isHandedOver: boolean) => void;
+  onDrop: (
+    drag: ActiveDrag & {fromListId: string},
+    absoluteX: number,
+    absoluteY: number,
+  ) => void;
+};
+
+export type ZoneDragParams = {
+  zoneId: string;
+  item: any;
+  key: string;
+  fromListId: string;
+};
+
+export type ZoneRegistration = {
+  measure: () => Promise<Bounds>;
+  onEnter: (params: ZoneDragParams) => void;
+  onLeave: (params: ZoneDragParams) => void;
+  onDrop: (params: ZoneDragParams) => void;
+};
+
+export type DropResult = {
+  // Whether the items were dropped over a list other than the source
+  isDroppedElsewhere: boolean;
+  // The drop zone the items were dropped on, if any
+  zoneId: string | null;
+};
+
+export type DragContextValue = {
+  registerList: (listId: string, registration: ListRegistration) => () => void;
+  registerZone: (zoneId: string, registration: ZoneRegistration) => () => void;
+  beginDrag: (listId: string, drag: ActiveDrag) => void;
+  moveDrag: (absoluteX: number, absoluteY: number, hoverStart: number) => void;
+  endDrag: (shouldDrop?: boolean) => DropResult;
+};
+
+export const DragContext = React.createContext<DragContextValue | null>(null);
+
+type Props = {
+  style?: StyleProp<ViewStyle>;
+};
+
+type State = {
+  activeDrag: ActiveDrag | null;
+  sourceBounds: Bounds | null;
+  isHandedOver: boolean;
+};
+
+function contains(bounds: Bounds, x: number, y: number) {
+  return (
+    x >= bounds.x &&
+    x <= bounds.x + bounds.width &&
+    y >= bounds.y &&
+    y <= bounds.y + bounds.height
+  );
+}
+
+/**
+ * Lets items be dragged between the DraggableSectionLists rendered inside it,
+ * and onto the DropZones rendered inside it. Once the touch leaves the list a
+ * drag started in, the hover component is rendered here, above all lists, and
+ * dropping it over another list fires that list's onDragEnd.
+ */
+export class DragProvider extends React.Component<Props, State> {
+  state: State = {
+    activeDrag: null,
+    sourceBounds: null,
+    isHandedOver: false,
+  };
+
+  containerRef = React.createRef<View>();
+  containerBounds: Bounds = {x: 0, y: 0, width: 0, height: 0};
+
+  lists = new Map<string, ListRegistration>();
+  listBounds = new Map<string, Bounds>();
+  zones = new Map<string, ZoneRegistration>();
+  zoneBounds = new Map<string, Bounds>();
+
+  sourceListId: string | null = null;
+  targetListId: string | null = null;
+  targetZoneId: string | null = null;
+  touchStart: {x: number; y: number} | null = null;
+  lastTouch = {x: 0, y: 0};
+
+  hoverTranslateX = new Value<number>(0);
+  hoverTranslateY = new Value<number>(0);
+
+  registerList = (listId: string, registration: ListRegistration) => {
+    this.lists.set(listId, registration);
+    return () => {
+      this.lists.delete(listId);
+      this.listBounds.delete(listId);
+    };
+  };
+
+  registerZone = (zoneId: string, registration: ZoneRegistration) => {
+    this.zones.set(zoneId, registration);
+    return () => {
+      this.zones.delete(zoneId);
+      this.zoneBounds.delete(zoneId);
+    };
+  };
+
+  measureContainer = () =>
+    new Promise<void>((resolve) => {
+      const container = this.containerRef.current;
+      if (!container) return resolve();
+      container.measureInWindow((x, y, width, height) => {
+        this.containerBounds = {x, y, width, height};
+        resolve();
+      });
+    });
+
+  // Lists and zones may have scrolled or moved since they were laid out, so
+  // they are measured again whenever a drag begins
+  measureLists = () =>
+    Promise.all([
+      this.measureContainer(),
+      ...[...this.lists.entries()].map(async ([listId, list]) => {
+        this.listBounds.set(listId, await list.measure());
+      }),
+      ...[...this.zones.entries()].map(async ([zoneId, zone]) => {
+        this.zoneBounds.set(zoneId, await zone.measure());
+      }),
+    ]);
+
+  beginDrag = async (listId: string, activeDrag: ActiveDrag) => {
+    this.sourceListId = listId;
+    this.targetListId = listId;
+    this.targetZoneId = null;
+    this.touchStart = null;
+    this.setState({activeDrag, isHandedOver: false});
+    await this.measureLists();
+    this.setState({sourceBounds: this.listBounds.get(listId) || null});
+  };
+
+  getListAt = (x: number, y: number) => {
+    for (const [listId, bounds] of this.listBounds) {
+      if (contains(bounds, x, y)) return listId;
+    }
+    return null;
+  };
+
+  getZoneAt = (x: number, y: number) => {
+    for (const [zoneId, bounds] of this.zoneBounds) {
+      if (contains(bounds, x, y)) return zoneId;
+    }
+    return null;
+  };
+
+  getZoneParams = (zoneId: string): ZoneDragParams | null => {
+    const params = this.getDragParams(zoneId);
+    if (!params) return null;
+    const {item, key, fromListId} = params;
+    return {zoneId, item, key, fromListId};
+  };
+
+  getDragParams = (listId: string): ListDragParams | null => {
+    const {activeDrag} = this.state;
+    if (!activeDrag || !this.sourceListId) return null;
+    const {activeKey, items, keys} = activeDrag;
+    return {
+      item: items[keys.indexOf(activeKey)],
+      key: activeKey,
+      fromListId: this.sourceListId,
+      listId,
+    };
+  };
+
+  moveDrag = (absoluteX: number, absoluteY: number, hoverStart: number) => {
+    const {activeDrag, sourceBounds} = this.state;
+    if (!activeDrag || !this.sourceListId) return;
+    if (!this.touchStart) this.touchStart = {x: absoluteX, y: absoluteY};
+    this.lastTouch = {x: absoluteX, y: absoluteY};
+
+    let zoneId: string | null = null;
+    if (sourceBounds) {
+      // Follow the list's own hover position along its axis and the touch
+      // across it, relative to the provider
+      const {horizontal, size} = activeDrag;
+      const left =
+        sourceBounds.x +
+        (horizontal ? hoverStart : absoluteX - this.touchStart.x);
+      const top =
+        sourceBounds.y +
+        (horizontal ? absoluteY - this.touchStart.y : hoverStart);
+      this.hoverTranslateX.setValue(left - this.containerBounds.x);
+      this.hoverTranslateY.setValue(top - this.containerBounds.y);
+      // Zones are hit by the middle of the hover component
+      zoneId = this.getZoneAt(
+        left + (horizontal ? size : sourceBounds.width) / 2,
+        top + (horizontal ? sourceBounds.height : size) / 2,
+      );
+    }
+
+    const listId = this.getListAt(absoluteX, absoluteY);
+    const hasZoneChanged = zoneId !== this.targetZoneId;
+    const hasListChanged = !!listId && listId !== this.targetListId;
+    if (!hasZoneChanged && !hasListChanged) return;
+
+    if (hasZoneChanged) {
+      const prevZoneId = this.targetZoneId;
+      this.targetZoneId = zoneId;
+      const prevZone = prevZoneId && this.zones.get(prevZoneId);
+      const prevParams = prevZoneId && this.getZoneParams(prevZoneId);
+      if (prevZone && prevParams) prevZone.onLeave(prevParams);
+      const zone = zoneId && this.zones.get(zoneId);
+      const params = zoneId && this.getZoneParams(zoneId);
+      if (zone && params) zone.onEnter(params);
+    }
+
+    if (listId && hasListChanged) {
+      const prevListId = this.targetListId;
+      this.targetListId = listId;
+      const prevList = prevListId && this.lists.get(prevListId);
+      const prevParams = prevListId && this.getDragParams(prevListId);
+      if (prevList && prevParams) prevList.onItemLeave(prevParams);
+      const list = this.lists.get(listId);
+      const params = this.getDragParams(listId);
+      if (list && params) list.onItemEnter(params);
+    }
+
+    // Items over a zone are out of every list, including their own
+    const isHandedOver =
+      !!this.targetZoneId || this.targetListId !== this.sourceListId;
+    if (isHandedOver === this.state.isHandedOver) return;
+    const source = this.lists.get(this.sourceListId);
+    if (source) source.onHandOver(isHandedOver);
+    this.setState({isHandedOver});
+  };
+
+  endDrag = (shouldDrop = true): DropResult => {
+    const {activeDrag} = this.state;
+    const sourceListId = this.sourceListId;
+    const targetListId = this.targetListId;
+    const targetZoneId = this.targetZoneId;
+    const zone = targetZoneId && this.zones.get(targetZoneId);
+    const zoneParams = targetZoneId && this.getZoneParams(targetZoneId);
+    const isDroppedOnZone = shouldDrop && !!zone && !!zoneParams;
+    if (zone && zoneParams) {
+      zone.onLeave(zoneParams);
+      if (isDroppedOnZone) zone.onDrop(zoneParams);
+    }
+    const target =
+      !targetZoneId && targetListId && this.lists.get(targetListId);
+    const isDroppedElsewhere =
+      shouldDrop && !!activeDrag && !!target && targetListId !== sourceListId;
+    if (activeDrag && target && sourceListId && isDroppedElsewhere) {
+      target.onDrop(
+        {...activeDrag, fromListId: sourceListId},
+        this.lastTouch.x,
+        this.lastTouch.y,
+      );
+    }
+    this.sourceListId = null;
+    this.targetListId = null;
+    this.targetZoneId = null;
+    this.touchStart = null;
+    this.setState({activeDrag: null, sourceBounds: null, isHandedOver: false});
+    return {
+      isDroppedElsewhere: isDroppedElsewhere || isDroppedOnZone,
+      zoneId: isDroppedOnZone ? targetZoneId : null,
+    };
+  };
+
+  contextValue: DragContextValue = {
+    registerList: this.registerList,
+    registerZone: this.registerZone,
+    beginDrag: this.beginDrag,
+    moveDrag: this.moveDrag,
+    endDrag: this.endDrag,
+  };
+
+  renderHoverComponent = () => {
+    const {activeDrag, sourceBounds} = this.state;
+    if (!activeDrag || !sourceBounds) return null;
+    const {horizontal} = activeDrag;
+    return (
+      <Animated.View
+        pointerEvents="none"
+        style={[
+          styles.hoverComponent,
+          horizontal
+            ? {height: sourceBounds.height, flexDirection: 'row'}
+            : {width: sourceBounds.width},
+          {
+            transform: [
+              {translateX: this.hoverTranslateX},
+              {translateY: this.hoverTranslateY},
+            ],
+          },
+        ]}>
+        {activeDrag.hoverComponent}
+      </Animated.View>
+    );
+  };
+
+  render() {
+    const {style, children} = this.props;
+    return (
+      <DragContext.Provider value={this.contextValue}>
+        <View
+          ref={this.containerRef}
+          style={[styles.flex, style]}
+          onLayout={this.measureContainer}>
+          {children}
+          {this.state.isHandedOver && this.renderHoverComponent()}
+        </View>
+      </DragContext.Provider>
+    );
+  }
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  hoverComponent: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+});
@@ -0,0 +1,71 @@
+import React from 'react';
+import {StyleProp, View, ViewStyle} from 'react-native';
+import {
+  Bounds,
+  DragContext,
+  DragContextValue,
+  ZoneDragParams,
+} from './DragProvider';
+
+type Props = {
+  id: string;
+  style?: StyleProp<ViewStyle>;
+  onEnter?: (params: ZoneDragParams) => void;
+  onLeave?: (params: ZoneDragParams) => void;
+  onDrop?: (params: ZoneDragParams) => void;
+};
+
+/**
+ * A target outside of the lists that items can be dropped on, e.g. to delete
+ * them. Items dropped on it aren't reordered, the list they came from fires
+ * onDropOnZone instead. Has to be rendered inside the same DragProvider as
+ * the lists.
+ */
+export class DropZone extends React.Component<Props> {
+  static contextType = DragContext;
+  context!: DragContextValue | null;
+
+  viewRef = React.createRef<View>();
+  unregisterZone?: () => void;
+
+  componentDidMount() {
+    this.register();
+  }
+
+  componentDidUpdate(prevProps: Props) {
+    if (prevProps.id !== this.props.id) this.register();
+  }
+
+  componentWillUnmount() {
+    if (this.unregisterZone) this.unregisterZone();
+  }
+
+  register = () => {
+    if (this.unregisterZone) this.unregisterZone();
+    if (!this.context) return;
+    this.unregisterZone = this.context.registerZone(this.props.id, {
+      measure: this.measure,
+      onEnter: (params) => this.props.onEnter && this.props.onEnter(params),
+      onLeave: (params) => this.props.onLeave && this.props.onLeave(params),
+      onDrop: (params) => this.props.onDrop && this.props.onDrop(params),
+    });
+  };
+
+  measure = () =>
+    new Promise<Bounds>((resolve) => {
+      const view = this.viewRef.current;
+      if (!view) return resolve({x: 0, y: 0, width: 0, height: 0});
+      view.measureInWindow((x, y, width, height) => {
+        resolve({x, y, width, height});
+      });
+    });
+
+  render() {
+    const {style, children} = this.props;
+    return (
+      <View ref={this.viewRef} collapsable={false} style={style}>
+        {children}
+      </View>
+    );
+  }
+}
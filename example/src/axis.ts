@@ -0,0 +1,48 @@
+import Animated from 'react-native-reanimated';
+
+const {cond, multiply, not} = Animated;
+
+type Horizontal = boolean | null | undefined;
+
+/** Whichever of x and y lies along the list */
+export function alongAxis<T>(horizontal: Horizontal, x: T, y: T): T {
+  return horizontal ? x : y;
+}
+
+/** Whichever of x and y lies across the list */
+export function acrossAxis<T>(horizontal: Horizontal, x: T, y: T): T {
+  return horizontal ? y : x;
+}
+
+// Picked natively, so the list can change direction without rebuilding its
+// animated nodes
+export const alongAxisNode = (
+  isHorizontal: Animated.Node<number>,
+  x: Animated.Adaptable<number>,
+  y: Animated.Adaptable<number>,
+) => cond(isHorizontal, x, y);
+
+export const acrossAxisNode = (
+  isHorizontal: Animated.Node<number>,
+  x: Animated.Adaptable<number>,
+  y: Animated.Adaptable<number>,
+) => cond(isHorizontal, y, x);
+
+/** Moves a cell along the list, whichever direction the list currently has */
+export const getCellTransform = (
+  isHorizontal: Animated.Node<number>,
+  translate: Animated.Adaptable<number>,
+) => [
+  {translateX: multiply(translate, isHorizontal)},
+  {translateY: multiply(translate, not(isHorizontal))},
+];
+
+/** Moves a view along the list */
+export function getAxisTransform<T>(horizontal: Horizontal, translate: T) {
+  return horizontal ? [{translateX: translate}] : [{translateY: translate}];
+}
+
+/** Sizes a view along the list, leaving its size across the list alone */
+export function getAxisLength<T>(horizontal: Horizontal, length: T) {
+  return horizontal ? {width: length} : {height: length};
+}
@@ -0,0 +1,86 @@
+import React, {useCallback, useState} from 'react';
+
+export type HistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+export type HistoryOptions = {
+  limit: number;
+  // Moves recorded less than this many ms after the previous one are undone
+  // and redone together with it
+  groupingInterval: number;
+};
+
+/**
+ * Undo and redo stacks of committed moves. Each step is a group of moves in
+ * the order they were made.
+ */
+export class ReorderHistory<TEntry> {
+  past: TEntry[][] = [];
+  future: TEntry[][] = [];
+  lastRecordedAt = -Infinity;
+
+  record(
+    entry: TEntry,
+    {limit, groupingInterval}: HistoryOptions,
+    now = Date.now(),
+  ) {
+    const lastGroup = this.past[this.past.length - 1];
+    if (lastGroup && now - this.lastRecordedAt < groupingInterval) {
+      lastGroup.push(entry);
+    } else {
+      this.past.push([entry]);
+    }
+    this.past.splice(0, Math.max(0, this.past.length - limit));
+    this.future = [];
+    this.lastRecordedAt = now;
+  }
+
+  undo() {
+    const group = this.past.pop();
+    if (group) {
+      this.future.push(group);
+    }
+    this.lastRecordedAt = -Infinity;
+    return group;
+  }
+
+  redo() {
+    const group = this.future.pop();
+    if (group) {
+      this.past.push(group);
+    }
+    this.lastRecordedAt = -Infinity;
+    return group;
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+    this.lastRecordedAt = -Infinity;
+  }
+
+  getState(): HistoryState {
+    return {canUndo: !!this.past.length, canRedo: !!this.future.length};
+  }
+}
+
+type HistoryHandle = {
+  undo: () => void;
+  redo: () => void;
+};
+
+/**
+ * Tracks whether the list's history can be undone or redone. Pass the
+ * returned onHistoryChange to the list the ref points to.
+ */
+export function useReorderHistory(listRef: React.RefObject<HistoryHandle>) {
+  const [state, setState] = useState<HistoryState>({
+    canUndo: false,
+    canRedo: false,
+  });
+  const undo = useCallback(() => listRef.current?.undo(), [listRef]);
+  const redo = useCallback(() => listRef.current?.redo(), [listRef]);
+  return {...state, undo, redo, onHistoryChange: setState};
+}
@@ -5,9 +5,12 @@ import {
   SectionListProps,
   findNodeHandle,
   ViewStyle,
+  StyleProp,
   SectionList as RNSectionList,
   NativeScrollEvent,
-  SectionListData,
+  AccessibilityInfo,
+  AccessibilityActionInfo,
+  AccessibilityActionEvent,
 } from 'react-native';
 import {
   PanGestureHandler,
@@ -18,7 +21,43 @@ import {
   ScrollView,
 } from 'react-native-gesture-handler';
 import Animated from 'react-native-reanimated';
-import {springFill, setupCell} from './procs';
+import {
+  springFill,
+  setupCell,
+  getIsInActiveBlock,
+  getStickyHeaderTranslate,
+} from './procs';
+import {
+  flattenSections,
+  moveFlatIndex,
+  regroupSections,
+  locateFlatIndex,
+  locateCell,
+  gatherFlatIndices,
+  SectionRange,
+  Section,
+} from './reorder';
+import {
+  DragContext,
+  DragContextValue,
+  ListDragParams,
+  ActiveDrag,
+  Bounds,
+} from './DragProvider';
+import {ReorderHistory, HistoryState} from './history';
+import {PersistenceAdapter, applyOrder, serializeOrder} from './order';
+import {ReorderOperation, getReorderOperations} from './operations';
+import {getRankBetween, getRebalancedRanks, needsRebalance} from './rank';
+import {
+  acrossAxis,
+  acrossAxisNode,
+  alongAxis,
+  alongAxisNode,
+  getAxisLength,
+  getAxisTransform,
+  getCellTransform,
+} from './axis';
+import {DragActivation, DragActivator, RowDragContext} from './DragHandle';
 
 const createNativeWrapper = require('react-native-gesture-handler/createNativeWrapper');
 
@@ -28,7 +67,6 @@ const AnimatedSectionList = Animated.createAnimatedComponent(SectionList());
 
 const {
   Value,
-  abs,
   set,
   cond,
   add,
@@ -42,9 +80,9 @@ const {
   call,
   onChange,
   divide,
+  multiply,
   greaterThan,
-  greaterOrEq,
-  lessOrEq,
+  lessThan,
   not,
   Clock,
   clockRunning,
@@ -57,9 +95,6 @@ const {
   debug,
 } = Animated;
 
-// Fire onScrollComplete when within this many
-// px of target offset
-const scrollPositionTolerance = 2;
 const defaultAnimationConfig = {
   damping: 20,
   mass: 0.2,
@@ -71,52 +106,242 @@ const defaultAnimationConfig = {
 
 const defaultProps = {
   autoscrollThreshold: 30,
-  autoscrollSpeed: 100,
+  autoscrollInsets: {start: 0, end: 0},
   animationConfig: defaultAnimationConfig as Animated.SpringConfig,
   scrollEnabled: true,
   dragHitSlop: 0,
   activationDistance: 0,
   dragItemOverflow: false,
+  crossSectionMoves: 'allow' as 'allow' | 'deny',
+  sectionsDraggable: true,
+  itemsDraggable: true,
+  longPressDelay: 500,
+  activeSlotStyle: {opacity: 0} as StyleProp<ViewStyle>,
 };
 
 type DefaultProps = Readonly<typeof defaultProps>;
 
-type AnimatedSectionListType<T> = {getNode: () => typeof AnimatedSectionList};
+export type ReorderAction =
+  | 'moveUp'
+  | 'moveDown'
+  | 'moveToPreviousSection'
+  | 'moveToNextSection'
+  | 'moveSectionUp'
+  | 'moveSectionDown';
+
+const itemActions: ReorderAction[] = [
+  'moveUp',
+  'moveDown',
+  'moveToPreviousSection',
+  'moveToNextSection',
+];
+const sectionActions: ReorderAction[] = ['moveSectionUp', 'moveSectionDown'];
+
+const defaultAccessibilityActionLabels: Record<ReorderAction, string> = {
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  moveToPreviousSection: 'Move to previous section',
+  moveToNextSection: 'Move to next section',
+  moveSectionUp: 'Move section up',
+  moveSectionDown: 'Move section down',
+};
+
+function getDefaultMoveAnnouncement({
+  isHeader,
+  toSectionIndex,
+  toItemIndex,
+}: MovedCell & {isHeader: boolean}) {
+  return isHeader
+    ? `Moved section to position ${toSectionIndex + 1}`
+    : `Moved to position ${toItemIndex + 1} in section ${toSectionIndex + 1}`;
+}
+
+type AnimatedSectionListType = {getNode: () => typeof AnimatedSectionList};
+
+export type MovedCell<TItem = any, TSection = any> = {
+  item: TItem | TSection;
+  key: string;
+  fromSectionIndex: number;
+  fromItemIndex: number; // -1 when a whole section was moved
+  toSectionIndex: number;
+  toItemIndex: number; // -1 when a whole section was moved
+};
+
+export type RankChange<TItem = any> = {
+  item: TItem;
+  key: string;
+  rank: string;
+  sectionIndex: number;
+  itemIndex: number;
+};
 
-export type DragEndParams<T> = {
-  data: T[];
+export type DragEndParams<TItem = any, TSection = any> = MovedCell<
+  TItem,
+  TSection
+> & {
+  data: Section<TItem, TSection>[];
   from: number;
   to: number;
+  isHeader: boolean;
+  // Every moved cell, including the dragged one, when several selected
+  // items were dragged together
+  moved: MovedCell<TItem, TSection>[];
+  // Set when the items were dragged in from another list of the same
+  // DragProvider. They still have to be removed from that list's data, and
+  // `from` is -1 while the from* indices refer to the other list.
+  fromListId?: string;
+};
+
+export type CellLayout = {
+  offset: number;
+  size: number;
 };
 
-export type RenderItemParams<T> = {
-  item: RenderItemParams<T>;
+type ListItemLayout = {length: number; offset: number; index: number};
+
+type MoveOptions = {
+  animated?: boolean;
+};
+
+export type DraggableSectionListHandle = {
+  // Moves an item to `toIndex` within the section at `toSection` and reports
+  // it through onDragEnd, like a drop would. Moves a drop couldn't make, past
+  // locked items, across sections when they are denied or refused by canDrop,
+  // are reported through onDropRejected instead.
+  moveItem: (
+    fromKey: string,
+    toSection: number,
+    toIndex: number,
+    options?: MoveOptions,
+  ) => void;
+  cancelDrag: () => void;
+  // Reverse or repeat the last recorded moves, see historyLimit
+  undo: (options?: MoveOptions) => void;
+  redo: (options?: MoveOptions) => void;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  scrollToItem: (key: string, options?: MoveOptions) => void;
+  scrollToSection: (sectionIndex: number, options?: MoveOptions) => void;
+  getCellLayout: (key: string) => CellLayout | undefined;
+};
+
+type HistoryEntry = {
+  result: DragEndParams;
+  before: Section[];
+};
+
+export type CanDropParams<TItem = any, TSection = any> = {
+  item: TItem | TSection;
+  key: string;
+  isHeader: boolean;
+  fromSection: Section<TItem, TSection>;
+  toSection: Section<TItem, TSection>;
+  toIndex: number; // Index within toSection, or the new section index for headers
+};
+
+// What SectionList passes to renderItem for a row
+export type ItemInfo<TItem, TSection = any> = {
+  item: TItem;
+  index: number;
+  section: Section<TItem, TSection>;
+};
+
+export type RenderItemParams<TItem, TSection = any> = {
+  item: ItemInfo<TItem, TSection>;
   index?: number; // This is technically a "last known index" since cells don't necessarily rerender when their index changes
   drag: () => void;
   isActive: boolean;
+  isSelected?: boolean;
+  toggleSelection?: () => void;
+  // Spread onto the row's accessible element to let screen reader users
+  // reorder it without dragging
+  accessibilityActions?: AccessibilityActionInfo[];
+  onAccessibilityAction?: (event: AccessibilityActionEvent) => void;
 };
-type sectionValue = {
-  data: any[];
-  section: any[];
+
+export type RenderSectionHeaderParams<TItem, TSection = any> = {
+  section: Section<TItem, TSection>;
+  sectionIndex: number;
+  drag: () => void;
+  isActive: boolean;
+  accessibilityActions?: AccessibilityActionInfo[];
+  onAccessibilityAction?: (event: AccessibilityActionEvent) => void;
+};
+
+// Previews are rendered with the same params as active rows, plus a node
+// going from 0 to 1 as the row is picked up and back to 0 as it drops
+export type RenderDragPreviewParams<TItem, TSection = any> = RenderItemParams<
+  TItem,
+  TSection
+> & {liftProgress: Animated.Node<number>};
+
+export type RenderSectionHeaderDragPreviewParams<
+  TItem,
+  TSection = any
+> = RenderSectionHeaderParams<TItem, TSection> & {
+  liftProgress: Animated.Node<number>;
 };
 
 type Modify<T, R> = Omit<T, keyof R> & R;
-type Props<T> = Modify<
-  SectionListProps<T>,
+type Props<TItem, TSection> = Modify<
+  SectionListProps<TItem>,
   {
+    // Deprecated, use autoscrollMaxSpeed. Maximum distance in px the list
+    // autoscrolls per step. Steps are taken once a frame, at 60 frames per
+    // second.
     autoscrollSpeed?: number;
+    // Maximum autoscroll speed in px per second, 1000 by default. Takes
+    // precedence over autoscrollSpeed.
+    autoscrollMaxSpeed?: number;
+    // Size of the edge zones in which the hovering cell autoscrolls the list
     autoscrollThreshold?: number;
-    data: sectionValue[];
-    onRef?: (ref: any) => void;
+    // Maps how far the hovering cell has pushed into an edge zone, from 0 to
+    // 1, to a fraction of the maximum speed. Built into the native animation
+    // once, when the list mounts.
+    autoscrollCurve?: (
+      progress: Animated.Node<number>,
+    ) => Animated.Adaptable<number>;
+    // Parts of the list covered by overlaid headers or footers. Edge zones
+    // start where the insets end. `start` is the top, or the left edge of a
+    // horizontal list.
+    autoscrollInsets?: {start?: number; end?: number};
+    data: Section<TItem, TSection>[];
+    onRef?: (ref: DraggableSectionListHandle) => void;
     onDragBegin?: (index: number) => void;
+    // Fires as soon as a drag is triggered, before the hovering cell is
+    // rendered, e.g. to play haptic feedback
+    onDragActivate?: (index: number) => void;
+    // How rows start a drag on their own. 'handle' leaves it to the
+    // DragHandles rendered in them. Without it rows only start a drag when
+    // they call drag() themselves.
+    dragActivation?: DragActivation;
+    longPressDelay?: number;
     onRelease?: (index: number) => void;
-    onDragEnd?: (params: DragEndParams<T>) => void;
-    renderItem: (params: RenderItemParams<T>) => React.ReactNode;
-    renderSectionHeader: (params: RenderItemParams<T>) => React.ReactNode;
-    renderPlaceholder?: (params: {item: any; index: number}) => React.ReactNode;
-    keyExtractor: (item: RenderItemParams<T>, index: number) => string;
+    onDragEnd?: (params: DragEndParams<TItem, TSection>) => void;
+    renderItem: (params: RenderItemParams<TItem, TSection>) => React.ReactNode;
+    renderSectionHeader: (
+      params: RenderSectionHeaderParams<TItem, TSection>,
+    ) => React.ReactNode;
+    // Render what follows the touch while dragging. Rows are rendered with
+    // renderItem and renderSectionHeader if these aren't given.
+    renderDragPreview?: (
+      params: RenderDragPreviewParams<TItem, TSection>,
+    ) => React.ReactNode;
+    renderSectionHeaderDragPreview?: (
+      params: RenderSectionHeaderDragPreviewParams<TItem, TSection>,
+    ) => React.ReactNode;
+    // Fraction of the preview's length that is kept under the touch, e.g. 0.5
+    // centers it. By default the point that was touched stays under it.
+    dragPreviewAnchor?: number;
+    // Style of the slot the dragged rows leave behind, hidden by default
+    activeSlotStyle?: StyleProp<ViewStyle>;
+    renderPlaceholder?: (params: {
+      item: TItem | TSection;
+      index: number;
+    }) => React.ReactNode;
+    keyExtractor: (item: TItem | TSection, index: number) => string;
     onMove?: (gestureEvent: PanGestureHandlerGestureEvent) => void;
-    isSectionHeader?: (itemToCheck: any) => boolean;
+    isSectionHeader?: (itemToCheck: TItem | TSection) => boolean;
     animationConfig: Partial<Animated.SpringConfig>;
     activationDistance?: number;
     debug?: boolean;
@@ -124,27 +349,118 @@ type Props<T> = Modify<
     onScrollOffsetChange?: (scrollOffset: number) => void;
     onPlaceholderIndexChange?: (placeholderIndex: number) => void;
     dragItemOverflow?: boolean;
+    canDrop?: (params: CanDropParams<TItem, TSection>) => boolean;
+    isItemLocked?: (item: TItem, sectionIndex: number) => boolean;
+    renderEmptySectionDropZone?: (params: {
+      section: Section<TItem, TSection>;
+      sectionIndex: number;
+    }) => React.ReactNode;
+    onDropRejected?: (params: CanDropParams<TItem, TSection>) => void;
+    // Fires instead of onDragEnd once the cells of a cancelled drag are back
+    // where they were picked up
+    onDragCancel?: (params: {key: string; from: number}) => void;
+    // Fires instead of onDragEnd when items are dropped on a DropZone of the
+    // surrounding DragProvider
+    onDropOnZone?: (params: {
+      zoneId: string;
+      item: TItem | TSection;
+      key: string;
+    }) => void;
+    // Dragging the touch this far outside of the list cancels the drag. Lists
+    // inside a DragProvider hand the drag over instead.
+    dragCancelDistance?: number;
+    selectedKeys?: string[];
+    onSelectionChange?: (selectedKeys: string[]) => void;
+    listId?: string;
+    onItemEnter?: (params: ListDragParams) => void;
+    onItemLeave?: (params: ListDragParams) => void;
+    accessibilityActionLabels?: Partial<Record<ReorderAction, string>>;
+    getMoveAnnouncement?: (params: DragEndParams<TItem, TSection>) => string;
+    historyLimit?: number;
+    historyGroupingInterval?: number;
+    // Saves the order after every committed move and restores it when the
+    // list mounts or receives new data. The data is controlled, so restored
+    // data is handed to onRestoreOrder to be set as data.
+    persistenceAdapter?: PersistenceAdapter;
+    // Where restored sections and items that weren't saved go, e.g.
+    // 'prepend' for lists that add new rows at the top
+    persistenceUnknownItems?: 'append' | 'prepend';
+    // Items that store their position as a rank string get a new rank
+    // between their new neighbours after each committed move. Only the moved
+    // items are reported, unless their section had to be rebalanced.
+    getRank?: (item: TItem) => string;
+    onRankChange?: (changes: RankChange<TItem>[]) => void;
+    // The fewest moves that turn the data before a committed move into the
+    // data after it, for backends that sync moves instead of whole arrays
+    onReorderOperations?: (
+      operations: ReorderOperation[],
+      params: DragEndParams<TItem, TSection>,
+    ) => void;
+    onRestoreOrder?: (data: Section<TItem, TSection>[]) => void;
+    // Cell sizes known up front skip native measurement altogether. They
+    // assume no list header, separators or section footers. When only one of
+    // itemSize and headerSize is given, it is used for both.
+    itemSize?: number;
+    headerSize?: number;
+    getCellSize?: (
+      cell: TItem | TSection,
+      index: number,
+      isHeader: boolean,
+    ) => number;
+    onHistoryChange?: (state: HistoryState) => void;
   } & Partial<DefaultProps>
 >;
 
 type State = {
   activeKey: string | null;
+  // Every cell lifted by the current drag: the active cell, its section's
+  // items or the other selected items
+  activeKeys: string[];
   hoverComponent: React.ReactNode | null;
+  isSectionDrag: boolean;
 };
 
 type CellData = {
   size: Animated.Value<number>;
   offset: Animated.Value<number>;
+  // Only meaningful for section headers: flat index of the last cell in the
+  // section (-1 for items) and the combined size of the header and its items.
+  sectionEnd: Animated.Value<number>;
+  sectionSize: Animated.Value<number>;
+  // Moves the cell into the layout in which all dragged cells are gathered
+  indexShift: Animated.Value<number>;
+  offsetShift: Animated.Value<number>;
   measurements: {
     size: number;
     offset: number;
   };
+  isMeasured: boolean;
   style: Animated.AnimateProps<ViewStyle, {}>;
   currentIndex: Animated.Value<number>;
   onLayout: () => void;
   onUnmount: () => void;
 };
 
+let listCount = 0;
+
+const defaultAutoscrollMaxSpeed = 1000;
+// How often the deprecated per step autoscrollSpeed used to step
+const autoscrollStepsPerSecond = 60;
+
+// SectionList only sticks headers of vertical lists, by default on iOS
+function getAreHeadersSticky({
+  stickySectionHeadersEnabled,
+  horizontal,
+}: {
+  stickySectionHeadersEnabled?: boolean;
+  horizontal?: boolean | null;
+}) {
+  if (horizontal) return false;
+  return stickySectionHeadersEnabled !== undefined
+    ? stickySectionHeadersEnabled
+    : Platform.OS === 'ios';
+}
+
 // Run callback on next paint:
 // https://stackoverflow.com/questions/26556436/react-after-render-code
 function onNextFrame(callback: () => void) {
@@ -153,19 +469,48 @@ function onNextFrame(callback: () => void) {
   });
 }
 
-class DraggableSectionList<T> extends React.Component<Props<T>, State> {
-  headersAndData: any[] = [];
+class DraggableSectionList<TItem, TSection = any>
+  extends React.Component<Props<TItem, TSection>, State>
+  implements DraggableSectionListHandle {
+  static contextType = DragContext;
+  context!: DragContextValue | null;
+
+  headersAndData: (TItem | TSection)[] = [];
+  sectionRanges: SectionRange[] = [];
+
+  // Layouts of every cell, mounted or not, when their sizes are known up
+  // front, and the same layouts indexed the way SectionList's getItemLayout
+  // expects: header, items and footer of each section.
+  cellLayouts: CellLayout[] | null = null;
+  listItemLayouts: ListItemLayout[] = [];
+
+  // Layouts of cells that haven't been measured, derived from the measured
+  // ones around them. Rebuilt lazily whenever a measurement comes in.
+  estimatedLayouts: CellLayout[] | null = null;
 
   state: State = {
     activeKey: null,
+    activeKeys: [],
     hoverComponent: null,
+    isSectionDrag: false,
   };
 
   containerRef = React.createRef<Animated.View>();
-  SectionListRef = React.createRef<AnimatedSectionListType<T>>();
+  SectionListRef = React.createRef<AnimatedSectionListType>();
   panGestureHandlerRef = React.createRef<PanGestureHandler>();
 
   containerSize = new Value<number>(0);
+  containerCrossSize = new Value<number>(0);
+
+  // Gesture and scroll events pick their axis natively, so toggling
+  // `horizontal` doesn't require rebuilding the animated nodes
+  isHorizontal = new Value<number>(this.props.horizontal ? 1 : 0);
+
+  // Size of the part of the viewport covered by the currently stuck section
+  // header, which the hovering cell stays below
+  areHeadersSticky = new Value<number>(getAreHeadersSticky(this.props) ? 1 : 0);
+  stuckHeaderIndex = new Value<number>(-1);
+  stuckHeaderSize = new Value<number>(0);
 
   activationDistance = new Value<number>(0);
   touchAbsolute = new Value<number>(0);
@@ -177,27 +522,57 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     js: false,
   };
 
-  hasMoved = new Value(0);
+  hasMoved = new Value<number>(0);
   disabled = new Value(0);
 
   activeIndex = new Value<number>(-1);
   isHovering = greaterThan(this.activeIndex, -1);
 
+  // Last index of the block being dragged. Equal to activeIndex when
+  // dragging a single item, the section's last index when dragging a section.
+  // Scattered selected items are gathered into one block while dragged, so
+  // during a drag the cells are indexed as if they already were.
+  activeBlockEnd = new Value<number>(-1);
+  activeIndices: number[] = [];
+  gatheredIndices: number[] = [];
+  isSectionDrag = new Value<number>(0);
+
   spacerIndex = new Value<number>(-1);
+  // Where the hovering cell would go. Copied to spacerIndex right away,
+  // unless a canDrop predicate has to approve each slot before the cells
+  // shift. canDrop may come and go after mount.
+  candidateSpacerIndex = new Value<number>(-1);
+  hasCanDrop = new Value<number>(this.props.canDrop ? 1 : 0);
+  rejectedDropIndex = -1;
+  minSpacerIndex = new Value<number>(-1);
+  maxSpacerIndex = new Value<number>(-1);
   activeCellSize = new Value<number>(0);
 
   scrollOffset = new Value<number>(0);
   scrollViewSize = new Value<number>(0);
-  isScrolledUp = lessOrEq(sub(this.scrollOffset, scrollPositionTolerance), 0);
-  isScrolledDown = greaterOrEq(
-    add(this.scrollOffset, this.containerSize, scrollPositionTolerance),
-    this.scrollViewSize,
-  );
 
   hoverAnimUnconstrained = sub(this.touchAbsolute, this.touchCellOffset);
+
+  // Content offsets the hovering item is kept within when it may not leave
+  // its section
+  isClampedToSection = new Value<number>(0);
+  sectionClampStart = new Value<number>(0);
+  sectionClampEnd = new Value<number>(0);
+  hoverAnimSectionClamped = cond(
+    this.isClampedToSection,
+    min(
+      sub(this.sectionClampEnd, this.scrollOffset),
+      max(
+        sub(this.sectionClampStart, this.scrollOffset),
+        this.hoverAnimUnconstrained,
+      ),
+    ),
+    this.hoverAnimUnconstrained,
+  );
+
   hoverAnimConstrained = min(
     sub(this.containerSize, this.activeCellSize),
-    max(0, this.hoverAnimUnconstrained),
+    max(this.stuckHeaderSize, this.hoverAnimSectionClamped),
   );
 
   hoverAnim = this.props.dragItemOverflow
@@ -224,11 +599,20 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     toValue: this.hoverTo,
   };
 
-  distToTopEdge = max(0, this.hoverAnim);
-  distToBottomEdge = max(
-    0,
-    sub(this.containerSize, add(this.hoverAnim, this.activeCellSize)),
-  );
+  // Picked up rows are lifted to 1 and settle back to 0 as they drop
+  isLifted = and(this.isHovering, this.isPressedIn.native);
+  liftClock = new Clock();
+  liftState = {
+    finished: new Value(0),
+    velocity: new Value(0),
+    position: new Value(0),
+    time: new Value(0),
+  };
+  liftConfig = {
+    ...this.hoverAnimConfig,
+    toValue: new Value<number>(0),
+  };
+  liftProgress = this.liftState.position;
 
   cellAnim = new Map<
     string,
@@ -251,19 +635,42 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     set(this.hoverAnimState.finished, 0),
     set(this.hoverAnimState.velocity, 0),
     set(this.hasMoved, 0),
+    cond(clockRunning(this.liftClock), stopClock(this.liftClock)),
+    set(this.liftState.position, 0),
+    set(this.liftState.velocity, 0),
   ];
 
   keyToIndex = new Map<string, number>();
 
-  /** Whether we've sent an incomplete call to the SectionList to do a scroll */
-  isAutoscrolling = {
+  queue: (() => void | Promise<void>)[] = [];
+
+  // Dragging between lists is coordinated by the DragProvider above, if any
+  listId = this.props.listId || `draggable-section-list-${listCount++}`;
+  unregisterList?: () => void;
+  isProviderDrag = false;
+  isDroppedElsewhere = false;
+  isHandedOver = {
     native: new Value<number>(0),
     js: false,
   };
+  scrollOffsetJs = 0;
 
-  queue: (() => void | Promise<void>)[] = [];
+  // Spacer index a move started through the ref animates to, and whether the
+  // current drag was cancelled and must not be reported as a drop
+  scriptedSpacerIndex = -1;
+  isDragCancelled = false;
+
+  // Moves are only recorded while historyLimit is set
+  history = new ReorderHistory<HistoryEntry>();
+  isApplyingHistory = false;
+
+  accessibilityActions = new Map<string, AccessibilityActionInfo[]>();
+  accessibilityActionsDeps: unknown[] = [];
+
+  // The order last handed to the persistenceAdapter, serialized
+  savedOrderJSON?: string;
 
-  static getDerivedStateFromProps(props: Props<any>) {
+  static getDerivedStateFromProps(props: Props<any, any>) {
     return {
       extraData: props.extraData,
     };
@@ -271,46 +678,57 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
 
   static defaultProps = defaultProps;
 
-  constructor(props: Props<T>) {
-    super(props);
+  constructor(props: Props<TItem, TSection>, context: DragContextValue | null) {
+    super(props, context);
     const {data, onRef} = props;
-    data.forEach((item) => {
-      this.headersAndData = [...this.headersAndData, item.section];
-      item.data.forEach((dataItem) => {
-        this.headersAndData = [...this.headersAndData, dataItem];
+    this.setHeadersAndData(data);
+    onRef && onRef(this);
+  }
+
+  componentDidMount() {
+    if (this.context) {
+      this.unregisterList = this.context.registerList(this.listId, {
+        measure: this.measureInWindow,
+        onItemEnter: (params) => {
+          if (this.props.onItemEnter) this.props.onItemEnter(params);
+        },
+        onItemLeave: (params) => {
+          if (this.props.onItemLeave) this.props.onItemLeave(params);
+        },
+        onHandOver: this.onHandOver,
+        onDrop: this.onExternalDrop,
       });
-    });
-    this.headersAndData.forEach((dataOrHeader, index) => {
+    }
+    this.restoreOrder();
+  }
+
+  componentWillUnmount() {
+    if (this.unregisterList) this.unregisterList();
+  }
+
+  setHeadersAndData = (data: Section<TItem, TSection>[]) => {
+    const {cells, ranges} = flattenSections(data);
+    this.headersAndData = cells;
+    this.sectionRanges = ranges;
+    this.setCellLayouts();
+    this.estimatedLayouts = null;
+    cells.forEach((dataOrHeader, index) => {
       const key = this.keyExtractor(dataOrHeader, index);
       this.keyToIndex.set(key, index);
     });
-    onRef && onRef(this.SectionListRef);
-  }
+  };
 
-  dataKeysHaveChanged = (a: sectionValue[], b: sectionValue[]) => {
+  dataKeysHaveChanged = (
+    a: Section<TItem, TSection>[],
+    b: Section<TItem, TSection>[],
+  ) => {
     const lengthOfSectionsChanged =
       Object.keys(a).length !== Object.keys(b).length;
     if (lengthOfSectionsChanged) return true;
-    let AheadersAndData: any[] = [];
-    let BheadersAndData: any[] = [];
-
-    a.forEach((item) => {
-      AheadersAndData = [...AheadersAndData, item.section];
-      item.data.forEach((dataItem) => {
-        AheadersAndData = [...AheadersAndData, dataItem];
-      });
-    });
-    const aKeys = AheadersAndData.map((dataOrHeader, index) =>
+    const aKeys = flattenSections(a).cells.map((dataOrHeader, index) =>
       this.keyExtractor(dataOrHeader, index),
     );
-
-    b.forEach((item) => {
-      BheadersAndData = [...BheadersAndData, item.section];
-      item.data.forEach((dataItem) => {
-        BheadersAndData = [...BheadersAndData, dataItem];
-      });
-    });
-    const bKeys = BheadersAndData.map((dataOrHeader, index) =>
+    const bKeys = flattenSections(b).cells.map((dataOrHeader, index) =>
       this.keyExtractor(dataOrHeader, index),
     );
 
@@ -318,45 +736,93 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     return !sameKeys;
   };
 
-  componentDidUpdate = async (prevProps: Props<T>, prevState: State) => {
+  componentDidUpdate = async (
+    prevProps: Props<TItem, TSection>,
+    prevState: State,
+  ) => {
+    const horizontalHasChanged =
+      !!prevProps.horizontal !== !!this.props.horizontal;
+    if (horizontalHasChanged) {
+      this.isHorizontal.setValue(this.props.horizontal ? 1 : 0);
+      this.onContainerLayout();
+    }
+    this.areHeadersSticky.setValue(getAreHeadersSticky(this.props) ? 1 : 0);
+    this.hasCanDrop.setValue(this.props.canDrop ? 1 : 0);
+    if (!this.props.canDrop) {
+      this.rejectedDropIndex = -1;
+    }
     const layoutInvalidationKeyHasChanged =
-      prevProps.layoutInvalidationKey !== this.props.layoutInvalidationKey;
+      prevProps.layoutInvalidationKey !== this.props.layoutInvalidationKey ||
+      prevProps.itemSize !== this.props.itemSize ||
+      prevProps.headerSize !== this.props.headerSize ||
+      prevProps.getCellSize !== this.props.getCellSize ||
+      horizontalHasChanged;
     const dataHasChanged = prevProps.data !== this.props.data;
     if (layoutInvalidationKeyHasChanged || dataHasChanged) {
-      this.props.data.forEach((item) => {
-        this.headersAndData = [...this.headersAndData, item.section];
-        item.data.forEach((dataItem) => {
-          this.headersAndData = [...this.headersAndData, dataItem];
-        });
-      });
-      this.headersAndData.forEach((dataOrHeader, index) => {
-        const key = this.keyExtractor(dataOrHeader, index);
-        this.keyToIndex.set(key, index);
-      });
+      this.setHeadersAndData(this.props.data);
       // Remeasure on next paint
       this.updateCellData(this.props.data);
       onNextFrame(this.flushQueue);
 
-      if (
-        layoutInvalidationKeyHasChanged ||
-        this.dataKeysHaveChanged(prevProps.data, this.props.data)
-      ) {
+      const dataKeysHaveChanged = this.dataKeysHaveChanged(
+        prevProps.data,
+        this.props.data,
+      );
+      // Known layouts don't have to wait for the cells to render
+      if (this.cellLayouts) {
+        this.measureAll(this.props.data);
+      } else if (layoutInvalidationKeyHasChanged || dataKeysHaveChanged) {
         this.queue.push(() => this.measureAll(this.props.data));
       }
+      // Recorded moves can't be replayed once cells were added or removed
+      if (dataKeysHaveChanged) this.clearHistory();
+      // Fresh data may come in the same cells in a different order
+      if (dataHasChanged) this.restoreOrder();
     }
 
     if (!prevState.activeKey && this.state.activeKey) {
       const index = this.keyToIndex.get(this.state.activeKey);
       if (index !== undefined) {
-        this.spacerIndex.setValue(index);
-        this.activeIndex.setValue(index);
+        const blockStart = this.getBlockStart(index);
+        this.spacerIndex.setValue(blockStart);
+        this.candidateSpacerIndex.setValue(blockStart);
+        this.activeIndex.setValue(blockStart);
+        this.activeBlockEnd.setValue(
+          blockStart + this.activeIndices.length - 1,
+        );
+        this.isSectionDrag.setValue(this.state.isSectionDrag ? 1 : 0);
+        const [minSpacerIndex, maxSpacerIndex] = this.getSpacerBounds(
+          index,
+          this.state.isSectionDrag,
+        );
+        this.minSpacerIndex.setValue(minSpacerIndex);
+        this.maxSpacerIndex.setValue(maxSpacerIndex);
+        this.setSectionClamp(index);
+        this.setGatherShifts(index);
         this.touchCellOffset.setValue(0);
         this.isPressedIn.native.setValue(1);
+        this.activeCellSize.setValue(this.getActiveSize());
       }
       const cellData = this.cellData.get(this.state.activeKey);
-      if (cellData) {
-        this.touchAbsolute.setValue(sub(cellData.offset, this.scrollOffset));
-        this.activeCellSize.setValue(cellData.measurements.size);
+      if (cellData && index !== undefined) {
+        // The hovering block starts with the selected cells above this one
+        this.touchAbsolute.setValue(
+          sub(
+            cellData.offset,
+            this.scrollOffset,
+            this.getActiveSize((i) => i < index),
+          ),
+        );
+      }
+      if (this.scriptedSpacerIndex !== -1) {
+        this.startScriptedMove(this.scriptedSpacerIndex);
+      } else if (
+        this.context &&
+        index !== undefined &&
+        !this.state.isSectionDrag
+      ) {
+        this.isProviderDrag = true;
+        this.context.beginDrag(this.listId, this.getProviderDrag());
       }
     }
   };
@@ -369,27 +835,350 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
   resetHoverState = () => {
     this.activeIndex.setValue(-1);
     this.spacerIndex.setValue(-1);
+    this.candidateSpacerIndex.setValue(-1);
+    this.rejectedDropIndex = -1;
+    this.activeBlockEnd.setValue(-1);
+    this.activeIndices = [];
+    this.gatheredIndices = [];
+    this.isSectionDrag.setValue(0);
+    this.isClampedToSection.setValue(0);
+    this.cellData.forEach(({indexShift, offsetShift}) => {
+      indexShift.setValue(0);
+      offsetShift.setValue(0);
+    });
     this.disabled.setValue(0);
+    this.isProviderDrag = false;
+    this.isDroppedElsewhere = false;
+    this.isHandedOver.js = false;
+    this.isHandedOver.native.setValue(0);
+    this.scriptedSpacerIndex = -1;
+    this.isDragCancelled = false;
     if (this.state.hoverComponent !== null || this.state.activeKey !== null) {
       this.setState({
         hoverComponent: null,
         activeKey: null,
+        activeKeys: [],
+        isSectionDrag: false,
       });
     }
   };
 
-  drag = (hoverComponent: React.ReactNode, activeKey: string) => {
+  getSectionIndex = (flatIndex: number) =>
+    locateFlatIndex(this.sectionRanges, flatIndex).sectionIndex;
+
+  getBlockSize = (start: number, end: number) => {
+    let blockSize = 0;
+    for (let i = start; i <= end; i++) {
+      const measurements = this.getCellMeasurements(i);
+      if (measurements) blockSize += measurements.size;
+    }
+    return blockSize;
+  };
+
+  getActiveSize = (filter: (index: number) => boolean = () => true) =>
+    this.activeIndices
+      .filter(filter)
+      .reduce((size, i) => size + this.getBlockSize(i, i), 0);
+
+  // Where the dragged cells start once they are gathered around the active cell
+  getBlockStart = (activeIndex: number) =>
+    activeIndex - this.activeIndices.filter((i) => i < activeIndex).length;
+
+  getGatherShifts = (activeIndex: number, index: number) => {
+    const measurements = this.getCellMeasurements(index);
+    if (!measurements || this.activeIndices.length < 2) {
+      return {indexShift: 0, offsetShift: 0};
+    }
+    const indexShift = this.gatheredIndices[index] - index;
+    if (this.activeIndices.includes(index)) {
+      const activeCell = this.getCellMeasurements(activeIndex);
+      const gatheredOffset =
+        (activeCell ? activeCell.offset : 0) -
+        this.getActiveSize((i) => i < activeIndex) +
+        this.getActiveSize((i) => i < index);
+      return {indexShift, offsetShift: gatheredOffset - measurements.offset};
+    }
+    const offsetShift =
+      index < activeIndex
+        ? -this.getActiveSize((i) => i < index)
+        : this.getActiveSize((i) => i > index);
+    return {indexShift, offsetShift};
+  };
+
+  setGatherShifts = (activeIndex: number) => {
+    this.headersAndData.forEach((dataOrHeader, index) => {
+      const cellData = this.cellData.get(
+        this.keyExtractor(dataOrHeader, index),
+      );
+      if (!cellData) return;
+      const {indexShift, offsetShift} = this.getGatherShifts(
+        activeIndex,
+        index,
+      );
+      cellData.indexShift.setValue(indexShift);
+      cellData.offsetShift.setValue(offsetShift);
+    });
+  };
+
+  // Keep the header's section bounds in sync so setupCell can treat the
+  // whole section as a single drop target while a section is dragged.
+  updateSectionLayout = (sectionIndex: number) => {
+    const range = this.sectionRanges[sectionIndex];
+    const header = range && this.headersAndData[range.start];
+    if (!header) return;
+    const cellData = this.cellData.get(this.keyExtractor(header, range.start));
+    if (!cellData) return;
+    cellData.sectionEnd.setValue(range.end);
+    cellData.sectionSize.setValue(this.getBlockSize(range.start, range.end));
+  };
+
+  isCellLocked = (index: number) => {
+    const {isItemLocked} = this.props;
+    if (!isItemLocked) return false;
+    const {sectionIndex, itemIndex} = locateFlatIndex(
+      this.sectionRanges,
+      index,
+    );
+    return (
+      itemIndex !== -1 &&
+      isItemLocked(this.headersAndData[index] as TItem, sectionIndex)
+    );
+  };
+
+  // Locked rows can't be displaced, so a dragged item may only move between
+  // the nearest locked rows around it. Sections carry their locked rows along.
+  getSpacerBounds = (activeIndex: number, isSectionDrag: boolean) => {
+    let minIndex = 0;
+    let maxIndex = this.headersAndData.length - 1;
+    if (isSectionDrag) return [minIndex, maxIndex];
+    if (this.props.crossSectionMoves === 'deny') {
+      const range = this.sectionRanges[this.getSectionIndex(activeIndex)];
+      if (range) {
+        minIndex = range.start + 1;
+        maxIndex = range.end;
+      }
+    }
+    if (!this.props.isItemLocked) return [minIndex, maxIndex];
+    for (let i = activeIndex - 1; i >= minIndex; i--) {
+      if (this.isCellLocked(i)) {
+        minIndex = i + 1;
+        break;
+      }
+    }
+    for (let i = activeIndex + 1; i <= maxIndex; i++) {
+      if (this.isCellLocked(i)) {
+        // Dropping on the header of a locked first row would land in front
+        // of it as well
+        const isFirstInSection =
+          locateFlatIndex(this.sectionRanges, i).itemIndex === 0;
+        maxIndex = isFirstInSection ? i - 2 : i - 1;
+        break;
+      }
+    }
+    return [minIndex, maxIndex];
+  };
+
+  getMeasuredLayout = (index: number) => {
+    if (this.cellLayouts) return this.cellLayouts[index];
+    const item = this.headersAndData[index];
+    const cellData = item && this.cellData.get(this.keyExtractor(item, index));
+    return cellData && cellData.isMeasured ? cellData.measurements : undefined;
+  };
+
+  // Cells that were windowed out before they could be measured still need a
+  // position, or dragging past them would compare against stale offsets
+  getCellMeasurements = (index: number): CellLayout | undefined => {
+    const measurements = this.getMeasuredLayout(index);
+    if (measurements) return measurements;
+    if (!this.estimatedLayouts) this.estimatedLayouts = this.estimateLayouts();
+    return this.estimatedLayouts[index];
+  };
+
+  // Unmeasured cells take the average measured size of their kind and line
+  // up behind the closest measured cell before them. Those in front of the
+  // first measured cell line up before it instead.
+  estimateLayouts = () => {
+    const headerIndices = new Set(this.sectionRanges.map(({start}) => start));
+    const measured = this.headersAndData.map((_, i) =>
+      this.getMeasuredLayout(i),
+    );
+    const totals = {header: {size: 0, count: 0}, item: {size: 0, count: 0}};
+    measured.forEach((layout, i) => {
+      if (!layout) return;
+      const total = headerIndices.has(i) ? totals.header : totals.item;
+      total.size += layout.size;
+      total.count += 1;
+    });
+    const average = ({size, count}: {size: number; count: number}) =>
+      count ? size / count : undefined;
+    const itemSize = average(totals.item) ?? average(totals.header) ?? 0;
+    const headerSize = average(totals.header) ?? itemSize;
+    const getSize = (i: number) =>
+      headerIndices.has(i) ? headerSize : itemSize;
+
+    const layouts: CellLayout[] = [];
+    let offset = 0;
+    measured.forEach((layout, i) => {
+      if (layout) {
+        layouts[i] = layout;
+        offset = layout.offset + layout.size;
+        return;
+      }
+      layouts[i] = {offset, size: getSize(i)};
+      offset += getSize(i);
+    });
+    const firstMeasured = measured.findIndex((layout) => !!layout);
+    if (firstMeasured !== -1) {
+      offset = layouts[firstMeasured].offset;
+      for (let i = firstMeasured - 1; i >= 0; i--) {
+        offset -= getSize(i);
+        layouts[i] = {offset, size: getSize(i)};
+      }
+    }
+    return layouts;
+  };
+
+  setSectionClamp = (activeIndex: number) => {
+    const range = this.sectionRanges[this.getSectionIndex(activeIndex)];
+    const header = range && this.getCellMeasurements(range.start);
+    const lastCell = range && this.getCellMeasurements(range.end);
+    const shouldClamp =
+      this.props.crossSectionMoves === 'deny' &&
+      !this.state.isSectionDrag &&
+      !!header &&
+      !!lastCell;
+    this.isClampedToSection.setValue(shouldClamp ? 1 : 0);
+    if (shouldClamp && header && lastCell) {
+      this.sectionClampStart.setValue(header.offset + header.size);
+      this.sectionClampEnd.setValue(
+        lastCell.offset + lastCell.size - this.getActiveSize(),
+      );
+    }
+  };
+
+  isInActiveBlock = (key: string) => this.state.activeKeys.includes(key);
+
+  // Dragging a selected item lifts every selected item it may move along with
+  getDraggedIndices = (activeIndex: number, isSectionDrag: boolean) => {
+    const {selectedKeys = []} = this.props;
+    if (isSectionDrag) {
+      const {start, end} = this.sectionRanges[
+        this.getSectionIndex(activeIndex)
+      ];
+      return Array.from({length: end - start + 1}, (_, i) => start + i);
+    }
+    const activeKey = this.keyExtractor(
+      this.headersAndData[activeIndex],
+      activeIndex,
+    );
+    if (!selectedKeys.includes(activeKey)) return [activeIndex];
+    const [minIndex, maxIndex] = this.getSpacerBounds(
+      activeIndex,
+      isSectionDrag,
+    );
+    return this.headersAndData
+      .map((_, i) => i)
+      .filter((i) => {
+        if (i === activeIndex) return true;
+        const key = this.keyExtractor(this.headersAndData[i], i);
+        return (
+          selectedKeys.includes(key) &&
+          i >= minIndex &&
+          i <= maxIndex &&
+          locateFlatIndex(this.sectionRanges, i).itemIndex !== -1 &&
+          !this.isCellLocked(i)
+        );
+      });
+  };
+
+  renderStackedHoverComponent = (
+    activeHoverComponent: React.ReactNode,
+    activeIndex: number,
+  ) => (
+    <>
+      {this.activeIndices.map((index) => {
+        const dataOrHeader = this.headersAndData[index];
+        const key = this.keyExtractor(dataOrHeader, index);
+        if (index === activeIndex) {
+          return (
+            <React.Fragment key={key}>{activeHoverComponent}</React.Fragment>
+          );
+        }
+        const {sectionIndex, itemIndex} = locateFlatIndex(
+          this.sectionRanges,
+          index,
+        );
+        return (
+          <React.Fragment key={key}>
+            {this.renderItemPreview({
+              isActive: true,
+              isSelected: true,
+              item: {
+                item: dataOrHeader as TItem,
+                index: itemIndex,
+                section: this.props.data[sectionIndex],
+              },
+              index,
+              drag: () => {
+                if (this.props.debug)
+                  console.log(
+                    '## attempt to call drag() on hovering component',
+                  );
+              },
+            })}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+
+  toggleSelection = (key: string) => {
+    const {selectedKeys = [], onSelectionChange} = this.props;
+    if (!onSelectionChange) return;
+    onSelectionChange(
+      selectedKeys.includes(key)
+        ? selectedKeys.filter((selectedKey) => selectedKey !== key)
+        : [...selectedKeys, key],
+    );
+  };
+
+  drag = (
+    hoverComponent: React.ReactNode,
+    activeKey: string,
+    isSectionDrag = false,
+  ) => {
     if (this.state.hoverComponent) {
-      // We can't drag more than one row at a time
+      // Only one drag gesture at a time, several rows are dragged together
+      // by selecting them first
       // TODO: Put action on queue?
-      if (this.props.debug) console.log("## Can't set multiple active items");
+      if (this.props.debug) console.log("## Can't start a second drag");
     } else {
+      const activeIndex = this.keyToIndex.get(activeKey);
+      if (activeIndex === undefined) return;
+      const {sectionsDraggable, itemsDraggable, onDragActivate} = this.props;
+      if (isSectionDrag ? !sectionsDraggable : !itemsDraggable) return;
+      if (onDragActivate) onDragActivate(activeIndex);
       this.isPressedIn.js = true;
+      this.activeIndices = this.getDraggedIndices(activeIndex, isSectionDrag);
+      gatherFlatIndices(
+        this.headersAndData.map((_, i) => i),
+        this.activeIndices,
+        activeIndex,
+      ).cells.forEach((index, gatheredIndex) => {
+        this.gatheredIndices[index] = gatheredIndex;
+      });
+      const isMultiDrag = !isSectionDrag && this.activeIndices.length > 1;
 
       this.setState(
         {
           activeKey,
-          hoverComponent,
+          activeKeys: this.activeIndices.map((i) =>
+            this.keyExtractor(this.headersAndData[i], i),
+          ),
+          hoverComponent: isMultiDrag
+            ? this.renderStackedHoverComponent(hoverComponent, activeIndex)
+            : hoverComponent,
+          isSectionDrag,
         },
         () => {
           const index = this.keyToIndex.get(activeKey);
@@ -402,43 +1191,266 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     }
   };
 
-  onRelease = ([index]: readonly number[]) => {
-    const {onRelease} = this.props;
+  onRelease = ([blockStart]: readonly number[]) => {
+    const {onRelease, onDropRejected} = this.props;
+    const {activeKey} = this.state;
+    const index = activeKey ? this.keyToIndex.get(activeKey) : undefined;
     this.isPressedIn.js = false;
-    onRelease && onRelease(index);
+    if (this.scriptedSpacerIndex !== -1) return;
+    let zoneId: string | null = null;
+    if (this.context && this.isProviderDrag) {
+      const result = this.context.endDrag(!this.isDragCancelled);
+      this.isDroppedElsewhere = result.isDroppedElsewhere;
+      zoneId = result.zoneId;
+    }
+    if (this.isDragCancelled) return;
+    onRelease && onRelease(index !== undefined ? index : blockStart);
+    const {onDropOnZone} = this.props;
+    if (zoneId && activeKey && index !== undefined && onDropOnZone) {
+      onDropOnZone({zoneId, item: this.headersAndData[index], key: activeKey});
+    }
+    if (this.isDroppedElsewhere) return;
+    if (onDropRejected && this.rejectedDropIndex !== -1) {
+      onDropRejected(this.getCanDropParams(this.rejectedDropIndex));
+    }
   };
 
-  onDragEnd = ([from, to]: readonly number[]) => {
-    const {onDragEnd, isSectionHeader} = this.props;
-    this.headersAndData.forEach((e) => {
-      console.log(this.props.isSectionHeader!(e));
-    });
-    let changedObject: sectionValue[] = [];
-    let lastSection: any;
-    if (onDragEnd && isSectionHeader) {
-      const data = this.headersAndData;
-      let newData = [...data];
-      if (from !== to) {
-        newData.splice(from, 1);
-        newData.splice(to, 0, data[from]);
+  // Headers are recognized by identity unless the consumer tells us otherwise
+  isSectionHeader = (dataOrHeader: any) =>
+    this.props.isSectionHeader
+      ? this.props.isSectionHeader(dataOrHeader)
+      : this.props.data.some(({section}) => section === dataOrHeader);
+
+  // `to` is the spacer index, counted as if the dragged cells were gathered
+  getDropResult = (to: number): DragEndParams<TItem, TSection> => {
+    const {activeKey, isSectionDrag} = this.state;
+    const from = activeKey ? this.keyToIndex.get(activeKey)! : -1;
+    return this.getMoveResult(from, this.activeIndices, isSectionDrag, to);
+  };
+
+  getMoveResult = (
+    from: number,
+    indices: number[],
+    isSectionDrag: boolean,
+    to: number,
+  ): DragEndParams<TItem, TSection> => {
+    const {cells, blockStart} = gatherFlatIndices(
+      this.headersAndData,
+      indices,
+      from,
+    );
+    const movedCells = moveFlatIndex(cells, blockStart, to, indices.length);
+    const data = regroupSections<TItem, TSection>(
+      movedCells,
+      this.isSectionHeader,
+    );
+    const getMovedCell = (index: number): MovedCell => {
+      const item = this.headersAndData[index];
+      const {
+        sectionIndex: fromSectionIndex,
+        itemIndex: fromItemIndex,
+      } = locateFlatIndex(this.sectionRanges, index);
+      const {sectionIndex: toSectionIndex, itemIndex: toItemIndex} = locateCell(
+        data,
+        item,
+      );
+      return {
+        item,
+        key: this.keyExtractor(item, index),
+        fromSectionIndex,
+        fromItemIndex,
+        toSectionIndex,
+        toItemIndex,
+      };
+    };
+    // Items of a dragged section move along with their header
+    const moved = (isSectionDrag ? [from] : indices).map(getMovedCell);
+    return {
+      ...getMovedCell(from),
+      from,
+      to: movedCells.indexOf(this.headersAndData[from]),
+      data,
+      isHeader: isSectionDrag,
+      moved,
+    };
+  };
+
+  getCanDropParams = (to: number) =>
+    this.toCanDropParams(this.getDropResult(to));
+
+  toCanDropParams = (
+    result: DragEndParams<TItem, TSection>,
+  ): CanDropParams<TItem, TSection> => {
+    const {data} = this.props;
+    return {
+      item: result.item,
+      key: result.key,
+      isHeader: result.isHeader,
+      fromSection: data[result.fromSectionIndex],
+      toSection: data[result.toSectionIndex],
+      toIndex: result.isHeader ? result.toSectionIndex : result.toItemIndex,
+    };
+  };
+
+  onCandidateSpacerIndexChange = ([blockStart, to]: readonly number[]) => {
+    const {canDrop} = this.props;
+    if (!canDrop || blockStart === -1 || to === -1) return;
+    if (this.isHandedOver.js) return;
+    // Dropping back into the original slot is always allowed
+    const isAllowed = blockStart === to || canDrop(this.getCanDropParams(to));
+    if (this.props.debug)
+      console.log(`## canDrop ${blockStart} -> ${to}: ${isAllowed}`);
+    this.rejectedDropIndex = isAllowed ? -1 : to;
+    if (isAllowed) this.spacerIndex.setValue(to);
+  };
+
+  // Every committed move goes through here so it's recorded exactly once
+  reportDragEnd = (result: DragEndParams<TItem, TSection>) => {
+    const {onDragEnd, data, historyLimit = 0} = this.props;
+    // Items dragged in from another list moved even if their indices match
+    const movedCells = result.moved.filter(
+      (cell) =>
+        !!result.fromListId ||
+        cell.fromSectionIndex !== cell.toSectionIndex ||
+        cell.fromItemIndex !== cell.toItemIndex,
+    );
+    const hasMoved = movedCells.length > 0;
+    if (this.isApplyingHistory) {
+      this.isApplyingHistory = false;
+    } else if (historyLimit > 0 && hasMoved && !result.fromListId) {
+      this.history.record(
+        {result, before: data},
+        {
+          limit: historyLimit,
+          groupingInterval: this.props.historyGroupingInterval || 0,
+        },
+      );
+      this.onHistoryChange();
+    }
+    if (onDragEnd) onDragEnd(result);
+    const {onReorderOperations} = this.props;
+    if (onReorderOperations) {
+      const operations = getReorderOperations(
+        data,
+        result.data,
+        this.keyExtractor,
+      );
+      if (operations.length) onReorderOperations(operations, result);
+    }
+    if (hasMoved) this.reportRankChanges(result, movedCells);
+    this.saveOrder(result.data);
+  };
+
+  reportRankChanges = (
+    result: DragEndParams<TItem, TSection>,
+    movedCells: MovedCell<TItem, TSection>[],
+  ) => {
+    const {getRank, onRankChange} = this.props;
+    if (!getRank || !onRankChange || result.isHeader) return;
+    const movedKeys = new Set(movedCells.map(({key}) => key));
+    const changes: RankChange<TItem>[] = [];
+    // Moved items are ranked in list order, so each one lands after the item
+    // ranked before it, and before the next item that wasn't moved
+    const sectionIndices = [
+      ...new Set(movedCells.map(({toSectionIndex}) => toSectionIndex)),
+    ].sort((a, b) => a - b);
+    const {ranges} = flattenSections(result.data);
+    sectionIndices.forEach((sectionIndex) => {
+      const section = result.data[sectionIndex];
+      if (!section) return;
+      const {start} = ranges[sectionIndex];
+      const keys = section.data.map((item, i) =>
+        this.keyExtractor(item, start + i + 1),
+      );
+      const ranks = section.data.map((item) => getRank(item));
+      const sectionChanges: RankChange<TItem>[] = [];
+      keys.forEach((key, i) => {
+        if (!movedKeys.has(key)) return;
+        let next = i + 1;
+        while (next < keys.length && movedKeys.has(keys[next])) next++;
+        const rank = getRankBetween(
+          i > 0 ? ranks[i - 1] : null,
+          next < keys.length ? ranks[next] : null,
+        );
+        ranks[i] = rank;
+        sectionChanges.push({
+          item: section.data[i],
+          key,
+          rank,
+          sectionIndex,
+          itemIndex: i,
+        });
+      });
+      if (!sectionChanges.some(({rank}) => needsRebalance(rank))) {
+        changes.push(...sectionChanges);
+        return;
       }
-      newData.forEach((item) => {
-        if (isSectionHeader(item)) {
-          const objectToPush = {section: item, data: []};
-          lastSection = item;
-          changedObject.push(objectToPush);
-          return;
-        }
-        changedObject[changedObject.length - 1].data = [
-          changedObject[changedObject.length - 1].data,
-          item,
-        ];
+      getRebalancedRanks(keys.length).forEach((rank, i) => {
+        changes.push({
+          item: section.data[i],
+          key: keys[i],
+          rank,
+          sectionIndex,
+          itemIndex: i,
+        });
+      });
+    });
+    if (changes.length) onRankChange(changes);
+  };
+
+  saveOrder = (data: Section<TItem, TSection>[]) => {
+    const {persistenceAdapter} = this.props;
+    if (!persistenceAdapter) return;
+    const savedOrder = serializeOrder(data, this.keyExtractor);
+    this.savedOrderJSON = JSON.stringify(savedOrder);
+    // Adapters that save synchronously may throw instead of rejecting
+    new Promise((resolve) => resolve(persistenceAdapter.set(savedOrder))).catch(
+      (err) => {
+        if (this.props.debug) console.log('## failed to save order', err);
+      },
+    );
+  };
+
+  restoreOrder = async () => {
+    const {persistenceAdapter} = this.props;
+    if (!persistenceAdapter || !this.props.onRestoreOrder) return;
+    try {
+      const savedOrder = await persistenceAdapter.get();
+      // The data may have changed while the order was loading
+      const {data, onRestoreOrder} = this.props;
+      if (!savedOrder || !onRestoreOrder) return;
+      const restored = applyOrder(data, savedOrder, {
+        keyExtractor: this.keyExtractor,
+        unknownItems: this.props.persistenceUnknownItems,
       });
-      onDragEnd({from, to, data: changedObject});
+      const orderJSON = JSON.stringify(serializeOrder(data, this.keyExtractor));
+      // Data in the order that was just saved is newer than what was loaded,
+      // which may have been read before the save landed
+      if (orderJSON === this.savedOrderJSON) return;
+      const isSameOrder =
+        JSON.stringify(serializeOrder(restored, this.keyExtractor)) ===
+        orderJSON;
+      if (!isSameOrder) onRestoreOrder(restored);
+    } catch (err) {
+      if (this.props.debug) console.log('## failed to restore order', err);
+    }
+  };
+
+  onDragEnd = ([, spacerIndex]: readonly number[]) => {
+    const result = this.getDropResult(spacerIndex);
+    // Lists the items were dropped into report the move instead
+    if (!this.isDroppedElsewhere && !this.isDragCancelled) {
+      this.reportDragEnd(result);
+    }
+    const {activeKey} = this.state;
+    const {onDragCancel} = this.props;
+    if (this.isDragCancelled && activeKey && onDragCancel) {
+      onDragCancel({key: activeKey, from: result.from});
     }
 
-    const lo = Math.min(from, to) - 1;
-    const hi = Math.max(from, to) + 1;
+    const {length} = this.activeIndices;
+    const lo = Math.min(this.activeIndices[0], result.to) - 1;
+    const hi = Math.max(this.activeIndices[length - 1], result.to + length) + 1;
     for (let i = lo; i < hi; i++) {
       this.queue.push(() => {
         const item = this.headersAndData[i];
@@ -451,20 +1463,236 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     this.resetHoverState();
   };
 
-  updateCellData = (data: sectionValue[] = []) => {
-    let localHeadersAndData: any[] = [];
-    data.forEach((item) => {
-      localHeadersAndData = [...localHeadersAndData, item.section];
-      item.data.forEach((dataItem) => {
-        localHeadersAndData = [...localHeadersAndData, dataItem];
+  // Spacer index the accessibility action moves the cell at `index` to, or -1
+  // if the action isn't available for it
+  getAccessibilityMoveTarget = (index: number, action: ReorderAction) => {
+    const {sectionIndex, itemIndex} = locateFlatIndex(
+      this.sectionRanges,
+      index,
+    );
+    const range = this.sectionRanges[sectionIndex];
+    if (!range) return -1;
+    const isHeader = itemIndex === -1;
+    const {sectionsDraggable, itemsDraggable} = this.props;
+    if (isHeader ? !sectionsDraggable : !itemsDraggable) return -1;
+    if (this.isCellLocked(index)) return -1;
+    const prevRange = this.sectionRanges[sectionIndex - 1];
+    const nextRange = this.sectionRanges[sectionIndex + 1];
+    let to = -1;
+    if (!isHeader) {
+      if (action === 'moveUp' && index > range.start + 1) to = index - 1;
+      if (action === 'moveDown' && index < range.end) to = index + 1;
+      // Items go to the end of the previous or the start of the next section
+      if (action === 'moveToPreviousSection' && prevRange) to = range.start;
+      if (action === 'moveToNextSection' && nextRange) to = nextRange.start;
+    } else {
+      if (action === 'moveSectionUp' && prevRange) to = prevRange.start;
+      if (action === 'moveSectionDown' && nextRange) to = nextRange.end;
+    }
+    const [minSpacerIndex, maxSpacerIndex] = this.getSpacerBounds(
+      index,
+      isHeader,
+    );
+    return to >= minSpacerIndex && to <= maxSpacerIndex ? to : -1;
+  };
+
+  // Rows are pure, so they get the same actions until something the actions
+  // depend on changes
+  getAccessibilityActions = (key: string): AccessibilityActionInfo[] => {
+    const {
+      isItemLocked,
+      crossSectionMoves,
+      sectionsDraggable,
+      itemsDraggable,
+      accessibilityActionLabels,
+    } = this.props;
+    const deps = [
+      this.sectionRanges,
+      isItemLocked,
+      crossSectionMoves,
+      sectionsDraggable,
+      itemsDraggable,
+      accessibilityActionLabels,
+    ];
+    if (deps.some((dep, i) => dep !== this.accessibilityActionsDeps[i])) {
+      this.accessibilityActionsDeps = deps;
+      this.accessibilityActions.clear();
+    }
+    let actions = this.accessibilityActions.get(key);
+    if (!actions) {
+      actions = this.buildAccessibilityActions(key);
+      this.accessibilityActions.set(key, actions);
+    }
+    return actions;
+  };
+
+  buildAccessibilityActions = (key: string): AccessibilityActionInfo[] => {
+    const index = this.keyToIndex.get(key);
+    if (index === undefined) return [];
+    const labels = {
+      ...defaultAccessibilityActionLabels,
+      ...this.props.accessibilityActionLabels,
+    };
+    const isHeader =
+      locateFlatIndex(this.sectionRanges, index).itemIndex === -1;
+    return (isHeader ? sectionActions : itemActions)
+      .filter((action) => this.getAccessibilityMoveTarget(index, action) !== -1)
+      .map((action) => ({name: action, label: labels[action]}));
+  };
+
+  // Moves the cell the way dropping it would, so consumers handle both the
+  // same way in onDragEnd
+  onAccessibilityAction = (key: string, action: string) => {
+    const {canDrop, onDropRejected, getMoveAnnouncement} = this.props;
+    const from = this.keyToIndex.get(key);
+    if (from === undefined || this.state.activeKey) return;
+    const to = this.getAccessibilityMoveTarget(from, action as ReorderAction);
+    if (to === -1) return;
+    const isSectionDrag = sectionActions.includes(action as ReorderAction);
+    const {start, end} = this.sectionRanges[this.getSectionIndex(from)];
+    const indices = isSectionDrag
+      ? Array.from({length: end - start + 1}, (_, i) => start + i)
+      : [from];
+    const result = this.getMoveResult(from, indices, isSectionDrag, to);
+    const canDropParams = this.toCanDropParams(result);
+    if (canDrop && !canDrop(canDropParams)) {
+      if (onDropRejected) onDropRejected(canDropParams);
+      return;
+    }
+    this.reportDragEnd(result);
+    AccessibilityInfo.announceForAccessibility(
+      getMoveAnnouncement
+        ? getMoveAnnouncement(result)
+        : getDefaultMoveAnnouncement(result),
+    );
+  };
+
+  getProviderDrag = (): ActiveDrag => {
+    const {activeKey, hoverComponent} = this.state;
+    const keys = this.activeIndices.map((i) =>
+      this.keyExtractor(this.headersAndData[i], i),
+    );
+    return {
+      activeKey: activeKey!,
+      items: this.activeIndices.map((i) => this.headersAndData[i]),
+      keys,
+      positions: this.activeIndices.map((i) =>
+        locateFlatIndex(this.sectionRanges, i),
+      ),
+      hoverComponent,
+      horizontal: !!this.props.horizontal,
+      size: this.getActiveSize(),
+    };
+  };
+
+  onProviderDragMove = ([
+    absoluteX,
+    absoluteY,
+    hoverStart,
+  ]: readonly number[]) => {
+    if (this.context && this.isProviderDrag) {
+      this.context.moveDrag(absoluteX, absoluteY, hoverStart);
+    }
+  };
+
+  // Moves the spacer to `to` and keeps the hovering cell from moving it until
+  // the spacer bounds are restored
+  pinSpacerIndex = (to: number) => {
+    this.minSpacerIndex.setValue(this.headersAndData.length);
+    this.maxSpacerIndex.setValue(-1);
+    this.candidateSpacerIndex.setValue(to);
+    this.spacerIndex.setValue(to);
+  };
+
+  // While the dragged items are over another list they no longer take up
+  // room here: no cell may become the spacer, and a spacer on the last cell
+  // shifts every cell after the dragged ones into the gap.
+  onHandOver = (isHandedOver: boolean) => {
+    const {activeKey, isSectionDrag} = this.state;
+    const index = activeKey ? this.keyToIndex.get(activeKey) : undefined;
+    if (index === undefined) return;
+    this.isHandedOver.js = isHandedOver;
+    this.isHandedOver.native.setValue(isHandedOver ? 1 : 0);
+    if (isHandedOver) {
+      this.pinSpacerIndex(this.headersAndData.length - 1);
+    } else {
+      const [minSpacerIndex, maxSpacerIndex] = this.getSpacerBounds(
+        index,
+        isSectionDrag,
+      );
+      this.minSpacerIndex.setValue(minSpacerIndex);
+      this.maxSpacerIndex.setValue(maxSpacerIndex);
+    }
+  };
+
+  // Items dragged in from another list are inserted in front of the first
+  // cell whose midpoint lies beyond the drop point
+  onExternalDrop = async (
+    drag: ActiveDrag & {fromListId: string},
+    absoluteX: number,
+    absoluteY: number,
+  ) => {
+    const {horizontal} = this.props;
+    const {activeKey, items, keys, positions, fromListId} = drag;
+    if (!this.sectionRanges.length) {
+      if (this.props.debug) console.log('## no section to drop into');
+      return;
+    }
+    const bounds = await this.measureInWindow();
+    const dropOffset =
+      alongAxis(horizontal, absoluteX - bounds.x, absoluteY - bounds.y) +
+      this.scrollOffsetJs;
+    let to = this.headersAndData.findIndex((_, i) => {
+      const measurements = this.getCellMeasurements(i);
+      return (
+        !!measurements &&
+        measurements.offset + measurements.size / 2 > dropOffset
+      );
+    });
+    if (to === -1) to = this.headersAndData.length;
+    const cells = [...this.headersAndData];
+    cells.splice(to, 0, ...items);
+    const data = regroupSections<TItem, TSection>(cells, this.isSectionHeader);
+    const moved = items.map(
+      (item, i): MovedCell => {
+        const {sectionIndex, itemIndex} = locateCell(data, item);
+        return {
+          item,
+          key: keys[i],
+          fromSectionIndex: positions[i].sectionIndex,
+          fromItemIndex: positions[i].itemIndex,
+          toSectionIndex: sectionIndex,
+          toItemIndex: itemIndex,
+        };
+      },
+    );
+    const activeItemIndex = keys.indexOf(activeKey);
+    this.reportDragEnd({
+      ...moved[activeItemIndex],
+      from: -1,
+      to: to + activeItemIndex,
+      data,
+      isHeader: false,
+      moved,
+      fromListId,
+    });
+  };
+
+  measureInWindow = () =>
+    new Promise<Bounds>((resolve) => {
+      const containerRef = this.containerRef.current;
+      if (!containerRef) return resolve({x: 0, y: 0, width: 0, height: 0});
+      containerRef.getNode().measureInWindow((x, y, width, height) => {
+        resolve({x, y, width, height});
       });
     });
-    return localHeadersAndData.forEach((dataOrHeader, index) => {
+
+  updateCellData = (data: Section<TItem, TSection>[] = []) =>
+    flattenSections(data).cells.forEach((dataOrHeader, index) => {
       const key = this.keyExtractor(dataOrHeader, index);
       const cell = this.cellData.get(key);
       if (cell) cell.currentIndex.setValue(index);
     });
-  };
 
   setCellData = (key: string, index: number) => {
     const clock = new Clock();
@@ -487,6 +1715,16 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     const initialized = new Value(0);
     const size = new Value<number>(0);
     const offset = new Value<number>(0);
+    const sectionEnd = new Value<number>(-1);
+    const sectionSize = new Value<number>(0);
+    const {activeKey} = this.state;
+    const activeIndex = activeKey ? this.keyToIndex.get(activeKey) : undefined;
+    const gatherShifts =
+      activeIndex !== undefined
+        ? this.getGatherShifts(activeIndex, index)
+        : {indexShift: 0, offsetShift: 0};
+    const indexShift = new Value<number>(gatherShifts.indexShift);
+    const offsetShift = new Value<number>(gatherShifts.offsetShift);
     const isAfterActive = new Value(0);
     const translate = new Value(0);
 
@@ -502,10 +1740,10 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     const prevSpacerIndex = new Value(-1);
 
     const anim = setupCell(
-      currentIndex,
+      add(currentIndex, indexShift),
       initialized,
       size,
-      offset,
+      add(offset, offsetShift),
       isAfterActive,
       translate,
       prevTrans,
@@ -528,11 +1766,39 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
       onFinished,
       this.isPressedIn.native,
       this.placeholderOffset,
+      this.activeBlockEnd,
+      this.isSectionDrag,
+      sectionEnd,
+      sectionSize,
+      this.candidateSpacerIndex,
+      this.minSpacerIndex,
+      this.maxSpacerIndex,
+      eq(sectionEnd, currentIndex),
+      offsetShift,
+    );
+
+    const cellTranslate = getStickyHeaderTranslate(
+      anim,
+      this.areHeadersSticky,
+      currentIndex,
+      neq(sectionEnd, -1),
+      and(
+        this.isHovering,
+        getIsInActiveBlock(
+          add(currentIndex, indexShift),
+          this.activeIndex,
+          this.activeBlockEnd,
+        ),
+      ),
+      size,
+      offset,
+      sectionSize,
+      this.scrollOffset,
+      this.stuckHeaderIndex,
+      this.stuckHeaderSize,
     );
 
-    const transform = this.props.horizontal
-      ? [{translateX: anim}]
-      : [{translateY: anim}];
+    const transform = getCellTransform(this.isHorizontal, cellTranslate);
 
     const style = {
       transform,
@@ -543,6 +1809,10 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
       currentIndex,
       size,
       offset,
+      sectionEnd,
+      sectionSize,
+      indexShift,
+      offsetShift,
       style,
       onLayout: () => {
         if (this.state.activeKey !== key) this.measureCell(key);
@@ -552,26 +1822,82 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
         size: 0,
         offset: 0,
       },
+      isMeasured: false,
     };
+    // Cells mounting mid-drag take part right away with their estimated
+    // layout until they are measured
+    const estimate = this.getCellMeasurements(index);
+    if (estimate) {
+      size.setValue(estimate.size);
+      offset.setValue(estimate.offset);
+    }
     this.cellData.set(key, cellData);
+    this.applyCellLayout(key, index);
   };
 
-  measureAll = (sections: sectionValue[]) => {
-    let localHeadersAndData: any = [];
-
-    sections.forEach((item) => {
-      localHeadersAndData = [localHeadersAndData, item.section];
-      item.data.forEach((dataItem) => {
-        localHeadersAndData = [localHeadersAndData, dataItem];
-      });
-    });
-    localHeadersAndData.forEach((dataOrHeader: any, index: number) => {
+  measureAll = (sections: Section<TItem, TSection>[]) => {
+    flattenSections(sections).cells.forEach((dataOrHeader, index) => {
       const key = this.keyExtractor(dataOrHeader, index);
       this.measureCell(key);
     });
   };
 
+  setCellLayouts = () => {
+    const {getCellSize} = this.props;
+    const itemSize = this.props.itemSize ?? this.props.headerSize;
+    const headerSize = this.props.headerSize ?? this.props.itemSize;
+    if (!getCellSize && (itemSize === undefined || headerSize === undefined)) {
+      this.cellLayouts = null;
+      this.listItemLayouts = [];
+      return;
+    }
+    const getSize = (index: number, isHeader: boolean) => {
+      if (getCellSize) {
+        return getCellSize(this.headersAndData[index], index, isHeader);
+      }
+      return isHeader ? headerSize! : itemSize!;
+    };
+    const cellLayouts: CellLayout[] = [];
+    const listItemLayouts: ListItemLayout[] = [];
+    let offset = 0;
+    this.sectionRanges.forEach(({start, end}) => {
+      for (let i = start; i <= end; i++) {
+        const size = getSize(i, i === start);
+        cellLayouts.push({size, offset});
+        listItemLayouts.push({
+          length: size,
+          offset,
+          index: listItemLayouts.length,
+        });
+        offset += size;
+      }
+      listItemLayouts.push({length: 0, offset, index: listItemLayouts.length});
+    });
+    this.cellLayouts = cellLayouts;
+    this.listItemLayouts = listItemLayouts;
+  };
+
+  getItemLayout = (_: any, index: number) =>
+    this.listItemLayouts[index] || {length: 0, offset: 0, index};
+
+  applyCellLayout = (key: string, index: number) => {
+    const cellData = this.cellData.get(key);
+    const layout = this.cellLayouts && this.cellLayouts[index];
+    if (!cellData || !layout) return;
+    cellData.size.setValue(layout.size);
+    cellData.offset.setValue(layout.offset);
+    cellData.measurements.size = layout.size;
+    cellData.measurements.offset = layout.offset;
+    cellData.isMeasured = true;
+    this.updateSectionLayout(this.getSectionIndex(index));
+  };
+
   measureCell = (key: string): Promise<void> => {
+    if (this.cellLayouts) {
+      const index = this.keyToIndex.get(key);
+      if (index !== undefined) this.applyCellLayout(key, index);
+      return Promise.resolve();
+    }
     return new Promise((resolve, reject) => {
       const {horizontal} = this.props;
 
@@ -583,21 +1909,23 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
         const activeKeyIndex = activeKey
           ? this.keyToIndex.get(activeKey)
           : undefined;
-        const baseOffset = horizontal ? x : y;
+        const baseOffset = alongAxis(horizontal, x, y);
         let extraOffset = 0;
         if (
           thisKeyIndex !== undefined &&
           activeKeyIndex !== undefined &&
           activeKey
         ) {
-          const isAfterActive = thisKeyIndex > activeKeyIndex;
-          const activeCellData = this.cellData.get(activeKey);
-          if (isHovering && isAfterActive && activeCellData) {
-            extraOffset = activeCellData.measurements.size;
+          const lastActiveIndex = this.activeIndices[
+            this.activeIndices.length - 1
+          ];
+          const isAfterActive = thisKeyIndex > lastActiveIndex;
+          if (isHovering && isAfterActive) {
+            extraOffset = this.getActiveSize();
           }
         }
 
-        const size = horizontal ? w : h;
+        const size = alongAxis(horizontal, w, h);
         const offset = baseOffset + extraOffset;
 
         if (this.props.debug)
@@ -605,11 +1933,33 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
             `measure key ${key}: wdith ${w} height ${h} x ${x} y ${y} size ${size} offset ${offset}`,
           );
 
+        if (
+          this.props.debug &&
+          cellData &&
+          !cellData.isMeasured &&
+          thisKeyIndex !== undefined
+        ) {
+          const estimate = this.getCellMeasurements(thisKeyIndex);
+          if (estimate)
+            console.log(
+              `## estimated key ${key}: size ${estimate.size} offset ${estimate.offset}, measured size ${size} offset ${offset}`,
+            );
+        }
+
         if (cellData) {
           cellData.size.setValue(size);
           cellData.offset.setValue(offset);
           cellData.measurements.size = size;
           cellData.measurements.offset = offset;
+          cellData.isMeasured = true;
+        }
+        this.estimatedLayouts = null;
+        if (thisKeyIndex !== undefined) {
+          this.updateSectionLayout(this.getSectionIndex(thisKeyIndex));
+        }
+        // Bounds derived from estimates are corrected as cells come in
+        if (isHovering && activeKeyIndex !== undefined) {
+          this.setSectionClamp(activeKeyIndex);
         }
 
         // remeasure on next layout if hovering
@@ -643,7 +1993,302 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     });
   };
 
-  keyExtractor = (item: RenderItemParams<T>, index: number) => {
+  renderItemPreview = (params: RenderItemParams<TItem, TSection>) => {
+    const {renderDragPreview, renderItem} = this.props;
+    return renderDragPreview
+      ? renderDragPreview({...params, liftProgress: this.liftProgress})
+      : renderItem(params);
+  };
+
+  renderSectionHeaderPreview = (
+    params: RenderSectionHeaderParams<TItem, TSection>,
+  ) => {
+    const {renderSectionHeaderDragPreview, renderSectionHeader} = this.props;
+    return renderSectionHeaderDragPreview
+      ? renderSectionHeaderDragPreview({
+          ...params,
+          liftProgress: this.liftProgress,
+        })
+      : renderSectionHeader(params);
+  };
+
+  renderHoverCell = (index: number, isSectionDrag: boolean) => {
+    const {data, debug} = this.props;
+    const {sectionIndex, itemIndex} = locateFlatIndex(
+      this.sectionRanges,
+      index,
+    );
+    const section = data[sectionIndex];
+    const {start} = this.sectionRanges[sectionIndex];
+    const onHoverDrag = () => {
+      if (debug) console.log('## attempt to call drag() on hovering component');
+    };
+    const renderRow = (i: number) =>
+      this.renderItemPreview({
+        isActive: true,
+        item: {item: section.data[i], index: i, section},
+        index: start + i + 1,
+        drag: onHoverDrag,
+      });
+    if (!isSectionDrag) return renderRow(itemIndex);
+    return (
+      <>
+        {this.renderSectionHeaderPreview({
+          isActive: true,
+          section,
+          sectionIndex,
+          drag: onHoverDrag,
+        })}
+        {section.data.map((_, i) => (
+          <React.Fragment key={i}>{renderRow(i)}</React.Fragment>
+        ))}
+      </>
+    );
+  };
+
+  // Moves cells the way a drop would. Animated moves lift the cells and let
+  // them settle through the same springs as a released drag, which needs
+  // every moved cell to have been measured.
+  commitMove = (
+    from: number,
+    indices: number[],
+    isSectionDrag: boolean,
+    to: number,
+    animated = false,
+  ) => {
+    const isMeasured = indices.every((i) => !!this.getMeasuredLayout(i));
+    if (!animated || !isMeasured) {
+      this.reportDragEnd(this.getMoveResult(from, indices, isSectionDrag, to));
+      return;
+    }
+    this.scriptedSpacerIndex = to;
+    this.activeIndices = indices;
+    gatherFlatIndices(
+      this.headersAndData.map((_, i) => i),
+      indices,
+      from,
+    ).cells.forEach((index, gatheredIndex) => {
+      this.gatheredIndices[index] = gatheredIndex;
+    });
+    this.setState({
+      activeKey: this.keyExtractor(this.headersAndData[from], from),
+      activeKeys: indices.map((i) =>
+        this.keyExtractor(this.headersAndData[i], i),
+      ),
+      hoverComponent: this.renderHoverCell(from, isSectionDrag),
+      isSectionDrag,
+    });
+  };
+
+  // Called once the cells of a move started through the ref are lifted: the
+  // cells spring to their new places, then the hovering cell is released.
+  startScriptedMove = (to: number) => {
+    this.hasMoved.setValue(1);
+    this.pinSpacerIndex(to);
+    onNextFrame(() => this.isPressedIn.native.setValue(0));
+  };
+
+  moveItem = (
+    fromKey: string,
+    toSection: number,
+    toIndex: number,
+    {animated = false}: MoveOptions = {},
+  ) => {
+    const from = this.keyToIndex.get(fromKey);
+    const range = this.sectionRanges[toSection];
+    if (from === undefined || !range || this.state.activeKey) {
+      if (this.props.debug) console.log(`## can't move ${fromKey}`);
+      return;
+    }
+    if (locateFlatIndex(this.sectionRanges, from).itemIndex === -1) {
+      if (this.props.debug) console.log('## moveItem() only moves items');
+      return;
+    }
+    if (this.isCellLocked(from)) {
+      if (this.props.debug) {
+        console.log(`## can't move locked ${fromKey}`);
+      }
+      return;
+    }
+    const to = this.getItemMoveTarget(from, toSection, toIndex);
+    if (to === from) return;
+    const {canDrop, onDropRejected} = this.props;
+    const [minIndex, maxIndex] = this.getSpacerBounds(from, false);
+    const canDropParams = this.toCanDropParams(
+      this.getMoveResult(from, [from], false, to),
+    );
+    if (
+      to < minIndex ||
+      to > maxIndex ||
+      (canDrop && !canDrop(canDropParams))
+    ) {
+      if (onDropRejected) {
+        onDropRejected(canDropParams);
+      }
+      return;
+    }
+    this.commitMove(from, [from], false, to, animated);
+  };
+
+  // Flat index an item ends up at, counted once it has been taken out
+  getItemMoveTarget = (from: number, toSection: number, toIndex: number) => {
+    const range = this.sectionRanges[toSection];
+    const start = from < range.start ? range.start - 1 : range.start;
+    const end = from <= range.end ? range.end - 1 : range.end;
+    return Math.min(start + 1 + Math.max(0, toIndex), end + 1);
+  };
+
+  // Spacer index that moves the section starting at `from` to `toSection`
+  getSectionMoveTarget = (from: number, toSection: number) => {
+    const sectionIndex = this.getSectionIndex(from);
+    const range = this.sectionRanges[toSection];
+    if (toSection === sectionIndex) return from;
+    return toSection < sectionIndex ? range.start : range.end;
+  };
+
+  get canUndo() {
+    return this.history.getState().canUndo;
+  }
+
+  get canRedo() {
+    return this.history.getState().canRedo;
+  }
+
+  onHistoryChange = () => {
+    const {onHistoryChange} = this.props;
+    if (onHistoryChange) onHistoryChange(this.history.getState());
+  };
+
+  clearHistory = () => {
+    if (!this.canUndo && !this.canRedo) return;
+    this.history.clear();
+    this.onHistoryChange();
+  };
+
+  undo = ({animated = true}: MoveOptions = {}) => {
+    if (this.state.activeKey || !this.canUndo) return;
+    const group = this.history.undo()!;
+    const {result} = group[group.length - 1];
+    this.replayMove(
+      {
+        ...result,
+        fromSectionIndex: result.toSectionIndex,
+        fromItemIndex: result.toItemIndex,
+        toSectionIndex: result.fromSectionIndex,
+        toItemIndex: result.fromItemIndex,
+        from: result.to,
+        to: result.from,
+        data: group[0].before,
+        moved: result.moved.map((cell) => ({
+          ...cell,
+          fromSectionIndex: cell.toSectionIndex,
+          fromItemIndex: cell.toItemIndex,
+          toSectionIndex: cell.fromSectionIndex,
+          toItemIndex: cell.fromItemIndex,
+        })),
+      },
+      group.length === 1 && animated,
+    );
+  };
+
+  redo = ({animated = true}: MoveOptions = {}) => {
+    if (this.state.activeKey || !this.canRedo) return;
+    const group = this.history.redo()!;
+    this.replayMove(
+      group[group.length - 1].result,
+      group.length === 1 && animated,
+    );
+  };
+
+  // Single cells are moved back through the same springs as a drop. Several
+  // moves or cells at once are restored in one step from the recorded data.
+  replayMove = (move: DragEndParams<TItem, TSection>, animated: boolean) => {
+    this.onHistoryChange();
+    this.isApplyingHistory = true;
+    const from = this.keyToIndex.get(move.key);
+    if (!animated || move.moved.length > 1 || from === undefined) {
+      this.reportDragEnd(move);
+      return;
+    }
+    if (move.isHeader) {
+      const {start, end} = this.sectionRanges[this.getSectionIndex(from)];
+      const indices = Array.from(
+        {length: end - start + 1},
+        (_, i) => start + i,
+      );
+      const to = this.getSectionMoveTarget(from, move.toSectionIndex);
+      this.commitMove(from, indices, true, to, true);
+    } else {
+      const to = this.getItemMoveTarget(
+        from,
+        move.toSectionIndex,
+        move.toItemIndex,
+      );
+      this.commitMove(from, [from], false, to, true);
+    }
+  };
+
+  // Springs the hovering cells back to where the drag started
+  cancelDrag = () => {
+    const {activeKey} = this.state;
+    const index = activeKey ? this.keyToIndex.get(activeKey) : undefined;
+    if (index === undefined || this.scriptedSpacerIndex !== -1) return;
+    this.onCancel();
+    this.pinSpacerIndex(this.getBlockStart(index));
+    this.hasMoved.setValue(1);
+    onNextFrame(() => this.isPressedIn.native.setValue(0));
+  };
+
+  onCancel = () => {
+    this.isDragCancelled = true;
+    if (this.isHandedOver.js) this.onHandOver(false);
+  };
+
+  scrollToOffset = (offset: number, animated = true) => {
+    const {horizontal} = this.props;
+    const SectionListRef = this.SectionListRef.current;
+    const scrollResponder = SectionListRef?.getNode().getScrollResponder();
+    scrollResponder?.scrollTo(
+      alongAxis(horizontal, {x: offset, animated}, {y: offset, animated}),
+    );
+  };
+
+  scrollToItem = (key: string, {animated = true}: MoveOptions = {}) => {
+    const index = this.keyToIndex.get(key);
+    if (index === undefined) return;
+    const measurements = this.getMeasuredLayout(index);
+    if (measurements) {
+      this.scrollToOffset(measurements.offset, animated);
+      return;
+    }
+    // Cells that were never rendered haven't been measured yet
+    const {sectionIndex, itemIndex} = locateFlatIndex(
+      this.sectionRanges,
+      index,
+    );
+    const SectionListRef = this.SectionListRef.current;
+    SectionListRef?.getNode().scrollToLocation({
+      sectionIndex,
+      itemIndex: itemIndex + 1, // Index 0 is the section header
+      animated,
+    });
+  };
+
+  scrollToSection = (sectionIndex: number, options?: MoveOptions) => {
+    const range = this.sectionRanges[sectionIndex];
+    if (!range) return;
+    const header = this.headersAndData[range.start];
+    this.scrollToItem(this.keyExtractor(header, range.start), options);
+  };
+
+  getCellLayout = (key: string): CellLayout | undefined => {
+    const index = this.keyToIndex.get(key);
+    if (index === undefined) return undefined;
+    const measurements = this.getMeasuredLayout(index);
+    return measurements ? {...measurements} : undefined;
+  };
+
+  keyExtractor = (item: TItem | TSection, index: number) => {
     if (this.props.keyExtractor) return this.props.keyExtractor(item, index);
     else
       throw new Error(
@@ -656,176 +2301,156 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     const containerRef = this.containerRef.current;
     if (containerRef) {
       containerRef.getNode().measure((x, y, w, h) => {
-        this.containerSize.setValue(horizontal ? w : h);
+        this.containerSize.setValue(alongAxis(horizontal, w, h));
+        this.containerCrossSize.setValue(acrossAxis(horizontal, w, h));
       });
     }
   };
 
   onListContentSizeChange = (w: number, h: number) => {
-    this.scrollViewSize.setValue(this.props.horizontal ? w : h);
+    this.scrollViewSize.setValue(alongAxis(this.props.horizontal, w, h));
     if (this.props.onContentSizeChange) this.props.onContentSizeChange(w, h);
   };
 
-  targetScrollOffset = new Value<number>(0);
-  resolveAutoscroll?: (scrollParams: readonly number[]) => void;
+  autoscrollInsetStart = (this.props.autoscrollInsets || {}).start || 0;
+  autoscrollInsetEnd = (this.props.autoscrollInsets || {}).end || 0;
+  distToTopEdge = max(
+    0,
+    sub(this.hoverAnim, this.stuckHeaderSize, this.autoscrollInsetStart),
+  );
+  distToBottomEdge = max(
+    0,
+    sub(
+      this.containerSize,
+      this.autoscrollInsetEnd,
+      add(this.hoverAnim, this.activeCellSize),
+    ),
+  );
 
-  onAutoscrollComplete = (params: readonly number[]) => {
-    this.isAutoscrolling.js = false;
-    if (this.resolveAutoscroll) this.resolveAutoscroll(params);
+  getAutoscrollRate = (distToEdge: Animated.Node<number>) => {
+    const {autoscrollThreshold, autoscrollCurve} = this.props;
+    if (!autoscrollThreshold || autoscrollThreshold <= 0) return 0;
+    const progress = max(0, sub(1, divide(distToEdge, autoscrollThreshold)));
+    return cond(
+      greaterThan(progress, 0),
+      autoscrollCurve ? autoscrollCurve(progress) : progress,
+      0,
+    );
   };
 
-  scrollToAsync = (offset: number): Promise<readonly number[]> =>
-    new Promise((resolve, reject) => {
-      this.resolveAutoscroll = resolve;
-      this.targetScrollOffset.setValue(offset);
-      this.isAutoscrolling.native.setValue(1);
-      this.isAutoscrolling.js = true;
-      const SectionListRef = this.SectionListRef.current;
-      SectionListRef?.getNode()._wrapperListRef._listRef.scrollToOffset({
-        offset: offset,
-      });
-    });
-
-  getScrollTargetOffset = (
-    distFromTop: number,
-    distFromBottom: number,
-    scrollOffset: number,
-    isScrolledUp: boolean,
-    isScrolledDown: boolean,
-  ) => {
-    if (this.isAutoscrolling.js) return -1;
-    const {autoscrollThreshold, autoscrollSpeed} = this.props;
-    const scrollUp = distFromTop < autoscrollThreshold!;
-    const scrollDown = distFromBottom < autoscrollThreshold!;
-    if (
-      !(scrollUp || scrollDown) ||
-      (scrollUp && isScrolledUp) ||
-      (scrollDown && isScrolledDown)
-    )
-      return -1;
-    const distFromEdge = scrollUp ? distFromTop : distFromBottom;
-    const speedPct = 1 - distFromEdge / autoscrollThreshold!;
-    // Android scroll speed seems much faster than ios
-    const speed =
-      Platform.OS === 'ios' ? autoscrollSpeed! : autoscrollSpeed! / 10;
-    const offset = speedPct * speed;
-    const targetOffset = scrollUp
-      ? Math.max(0, scrollOffset - offset)
-      : scrollOffset + offset;
-    return targetOffset;
-  };
-
-  /** Ensure that only 1 call to autoscroll is active at a time */
-  autoscrollLooping = false;
-  autoscroll = async (params: readonly number[]) => {
-    if (this.autoscrollLooping) {
-      return;
-    }
-    this.autoscrollLooping = true;
-    try {
-      let shouldScroll = true;
-      let curParams = params;
-      while (shouldScroll) {
-        const [
-          distFromTop,
-          distFromBottom,
-          scrollOffset,
-          isScrolledUp,
-          isScrolledDown,
-        ] = curParams;
-        const targetOffset = this.getScrollTargetOffset(
-          distFromTop,
-          distFromBottom,
-          scrollOffset,
-          !!isScrolledUp,
-          !!isScrolledDown,
-        );
-        const scrollingUpAtTop = !!(
-          isScrolledUp && targetOffset <= scrollOffset
-        );
-        const scrollingDownAtBottom = !!(
-          isScrolledDown && targetOffset >= scrollOffset
-        );
-        shouldScroll =
-          targetOffset >= 0 &&
-          this.isPressedIn.js &&
-          !scrollingUpAtTop &&
-          !scrollingDownAtBottom;
-
-        if (shouldScroll) {
-          curParams = await this.scrollToAsync(targetOffset);
-        }
-      }
-    } finally {
-      this.autoscrollLooping = false;
+  getAutoscrollMaxSpeed = () => {
+    const {autoscrollMaxSpeed, autoscrollSpeed} = this.props;
+    if (autoscrollMaxSpeed !== undefined) return autoscrollMaxSpeed;
+    if (autoscrollSpeed !== undefined) {
+      return autoscrollSpeed * autoscrollStepsPerSecond;
     }
+    return defaultAutoscrollMaxSpeed;
   };
 
-  isAtTopEdge = lessOrEq(this.distToTopEdge, this.props.autoscrollThreshold!);
-  isAtBottomEdge = lessOrEq(
-    this.distToBottomEdge,
-    this.props.autoscrollThreshold!,
+  // Scroll speed in px per second, negative towards the start of the list
+  autoscrollVelocity = multiply(
+    this.getAutoscrollMaxSpeed(),
+    sub(
+      this.getAutoscrollRate(this.distToBottomEdge),
+      this.getAutoscrollRate(this.distToTopEdge),
+    ),
   );
-  isAtEdge = or(this.isAtBottomEdge, this.isAtTopEdge);
-
-  autoscrollParams = [
-    this.distToTopEdge,
-    this.distToBottomEdge,
-    this.scrollOffset,
-    this.isScrolledUp,
-    this.isScrolledDown,
-  ];
-
-  checkAutoscroll = cond(
-    and(
-      this.isAtEdge,
-      not(and(this.isAtTopEdge, this.isScrolledUp)),
-      not(and(this.isAtBottomEdge, this.isScrolledDown)),
-      eq(this.panGestureState, GestureState.ACTIVE),
-      not(this.isAutoscrolling.native),
+  maxScrollOffset = max(0, sub(this.scrollViewSize, this.containerSize));
+  isAutoscrollNeeded = and(
+    eq(this.panGestureState, GestureState.ACTIVE),
+    this.isHovering,
+    not(this.isHandedOver.native),
+    or(
+      and(
+        lessThan(this.autoscrollVelocity, 0),
+        greaterThan(this.scrollOffset, 0),
+      ),
+      and(
+        greaterThan(this.autoscrollVelocity, 0),
+        lessThan(this.scrollOffset, this.maxScrollOffset),
+      ),
     ),
-    call(this.autoscrollParams, this.autoscroll),
   );
 
-  onScroll = event([
-    {
-      nativeEvent: ({contentOffset}: NativeScrollEvent) =>
-        block([
-          set(
-            this.scrollOffset,
-            this.props.horizontal ? contentOffset.x : contentOffset.y,
-          ),
-          cond(
-            and(
-              this.isAutoscrolling.native,
-              or(
-                // We've scrolled to where we want to be
-                lessOrEq(
-                  abs(sub(this.targetScrollOffset, this.scrollOffset)),
-                  scrollPositionTolerance,
-                ),
-                // We're at the start, but still want to scroll farther up
-                and(
-                  this.isScrolledUp,
-                  lessOrEq(this.targetScrollOffset, this.scrollOffset),
-                ),
-                // We're at the end, but still want to scroll further down
-                and(
-                  this.isScrolledDown,
-                  greaterOrEq(this.targetScrollOffset, this.scrollOffset),
-                ),
+  // Autoscroll advances every frame by however far the current velocity
+  // carries it since the previous frame. The offset is integrated natively
+  // instead of waiting for each scroll to land, but every frame still calls
+  // into JS to scroll the list there.
+  autoscrollClock = new Clock();
+  autoscrollTime = new Value<number>(0);
+  autoscrollOffset = new Value<number>(0);
+
+  onAutoscroll = ([offset]: readonly number[]) => {
+    this.scrollToOffset(offset, false);
+  };
+
+  autoscroll = cond(
+    this.isAutoscrollNeeded,
+    [
+      cond(not(clockRunning(this.autoscrollClock)), [
+        set(this.autoscrollTime, this.autoscrollClock),
+        set(this.autoscrollOffset, this.scrollOffset),
+        startClock(this.autoscrollClock),
+      ]),
+      set(
+        this.autoscrollOffset,
+        min(
+          this.maxScrollOffset,
+          max(
+            0,
+            add(
+              this.autoscrollOffset,
+              multiply(
+                this.autoscrollVelocity,
+                divide(sub(this.autoscrollClock, this.autoscrollTime), 1000),
               ),
             ),
-            [
-              // Finish scrolling
-              set(this.isAutoscrolling.native, 0),
-              call(this.autoscrollParams, this.onAutoscrollComplete),
-            ],
           ),
-        ]),
+        ),
+      ),
+      set(this.autoscrollTime, this.autoscrollClock),
+      call([this.autoscrollOffset], this.onAutoscroll),
+    ],
+    cond(clockRunning(this.autoscrollClock), stopClock(this.autoscrollClock)),
+  );
+
+  onScroll = event([
+    {
+      nativeEvent: ({contentOffset}: NativeScrollEvent) =>
+        set(
+          this.scrollOffset,
+          alongAxisNode(this.isHorizontal, contentOffset.x, contentOffset.y),
+        ),
     },
   ]);
 
+  // Sends the hovering cells back to where they were picked up. Pinning the
+  // spacer to the start of the dragged block lets every cell settle back and
+  // the release spring carry the hovering cell home, without committing.
+  cancelHover = cond(this.isHovering, [
+    set(this.maxSpacerIndex, -1),
+    set(this.candidateSpacerIndex, this.activeIndex),
+    set(this.spacerIndex, this.activeIndex),
+    set(this.hasMoved, 1),
+    call([this.activeIndex], this.onCancel),
+  ]);
+
+  getIsFarOutside = (
+    x: Animated.Adaptable<number>,
+    y: Animated.Adaptable<number>,
+  ) => {
+    const {dragCancelDistance} = this.props;
+    if (this.context || dragCancelDistance === undefined) return 0;
+    const along = alongAxisNode(this.isHorizontal, x, y);
+    const across = acrossAxisNode(this.isHorizontal, x, y);
+    return or(
+      lessThan(along, -dragCancelDistance),
+      greaterThan(along, add(this.containerSize, dragCancelDistance)),
+      lessThan(across, -dragCancelDistance),
+      greaterThan(across, add(this.containerCrossSize, dragCancelDistance)),
+    );
+  };
+
   onGestureRelease = [
     cond(
       this.isHovering,
@@ -861,16 +2486,21 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
             eq(this.panGestureState, GestureState.ACTIVE),
             set(
               this.activationDistance,
-              sub(this.touchAbsolute, this.props.horizontal ? x : y),
+              this.props.dragPreviewAnchor === undefined
+                ? sub(
+                    this.touchAbsolute,
+                    alongAxisNode(this.isHorizontal, x, y),
+                  )
+                : multiply(this.activeCellSize, -this.props.dragPreviewAnchor),
             ),
           ),
+          cond(eq(state, GestureState.END), this.onGestureRelease),
           cond(
             or(
-              eq(state, GestureState.END),
               eq(state, GestureState.CANCELLED),
               eq(state, GestureState.FAILED),
             ),
-            this.onGestureRelease,
+            [this.cancelHover, this.onGestureRelease],
           ),
         ]),
     },
@@ -878,7 +2508,12 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
 
   onPanGestureEvent = event([
     {
-      nativeEvent: ({x, y}: PanGestureHandlerEventExtra) =>
+      nativeEvent: ({
+        x,
+        y,
+        absoluteX,
+        absoluteY,
+      }: PanGestureHandlerEventExtra) =>
         cond(
           and(
             this.isHovering,
@@ -889,8 +2524,22 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
             cond(not(this.hasMoved), set(this.hasMoved, 1)),
             set(
               this.touchAbsolute,
-              add(this.props.horizontal ? x : y, this.activationDistance),
+              add(
+                alongAxisNode(this.isHorizontal, x, y),
+                this.activationDistance,
+              ),
             ),
+            cond(this.getIsFarOutside(x, y), [
+              this.cancelHover,
+              set(this.isPressedIn.native, 0),
+            ]),
+            // Only lists inside a DragProvider need the touch on the JS side
+            this.context
+              ? call(
+                  [absoluteX, absoluteY, this.hoverAnimUnconstrained],
+                  this.onProviderDragMove,
+                )
+              : 0,
           ],
         ),
     },
@@ -902,10 +2551,7 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     this.hoverAnim,
   );
 
-  hoverComponentOpacity = and(
-    this.isHovering,
-    neq(this.panGestureState, GestureState.CANCELLED),
-  );
+  hoverComponentOpacity = and(this.isHovering, not(this.isHandedOver.native));
 
   renderHoverComponent = () => {
     const {hoverComponent} = this.state;
@@ -919,15 +2565,10 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
             : styles.hoverComponentVertical,
           {
             opacity: this.hoverComponentOpacity,
-            transform: [
-              {
-                [`translate${horizontal ? 'X' : 'Y'}`]: this
-                  .hoverComponentTranslate,
-              },
-              // We need the cast because the transform array usually accepts
-              // only specific keys, and we dynamically generate the key
-              // above
-            ] as Animated.AnimatedTransform,
+            transform: getAxisTransform(
+              horizontal,
+              this.hoverComponentTranslate,
+            ),
           },
         ]}>
         {hoverComponent}
@@ -935,7 +2576,7 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     );
   };
 
-  renderSectionHeader = (info: SectionListData<T>) => {
+  renderSectionHeader = (info: {section: Section<TItem, TSection>}) => {
     const index = this.headersAndData.indexOf(info.section.section);
     const {activeKey} = this.state;
     const key = this.keyExtractor(info.section.section, index);
@@ -953,9 +2594,18 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     };
     const cellData = this.cellData.get(key);
     if (!cellData) return null;
-    const {horizontal} = this.props;
-    const isActiveCell = activeKey === key;
+    const {horizontal, renderEmptySectionDropZone} = this.props;
+    const isActiveCell = this.isInActiveBlock(key);
     const {style, onLayout: onCellLayout} = cellData;
+    const sectionIndex = this.getSectionIndex(index);
+    const sectionRange = this.sectionRanges[sectionIndex];
+    if (sectionRange) cellData.sectionEnd.setValue(sectionRange.end);
+    // Rendered inside the measured cell so the zone counts as part of the
+    // header when dropping into an empty section
+    const emptySectionDropZone =
+      renderEmptySectionDropZone && !info.section.data.length
+        ? renderEmptySectionDropZone({section: info.section, sectionIndex})
+        : null;
     return (
       <Animated.View style={style}>
         <Animated.View
@@ -966,23 +2616,34 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
           <Animated.View
             ref={ref}
             onLayout={onCellLayout}
-            style={isActiveCell ? {opacity: 0} : undefined}>
+            style={[
+              isActiveCell ? this.props.activeSlotStyle : undefined,
+              horizontal && !!emptySectionDropZone && styles.row,
+            ]}>
             <RowSection
               extraData={this.props.extraData}
               itemKey={key}
               keyToIndex={this.keyToIndex}
               renderSectionHeader={this.props.renderSectionHeader}
+              renderItem={this.props.renderItem}
+              renderHoverCell={this.renderHoverCell}
               item={info.section}
+              sectionIndex={sectionIndex}
               drag={this.drag}
+              dragActivation={this.props.dragActivation}
+              longPressDelay={this.props.longPressDelay!}
+              accessibilityActions={this.getAccessibilityActions(key)}
+              onAccessibilityAction={this.onAccessibilityAction}
               onUnmount={onUnmount}
             />
+            {emptySectionDropZone}
           </Animated.View>
         </Animated.View>
       </Animated.View>
     );
   };
 
-  renderItem = (item: RenderItemParams<T>) => {
+  renderItem = (item: ItemInfo<TItem, TSection>) => {
     const index = this.headersAndData.indexOf(item.item);
     const key = this.keyExtractor(item.item, index);
     const {activeKey} = this.state;
@@ -1002,7 +2663,7 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     const cellData = this.cellData.get(key);
     if (!cellData) return null;
     const {style, onLayout: onCellLayout} = cellData;
-    const isActiveCell = activeKey === key;
+    const isActiveCell = this.isInActiveBlock(key);
     return (
       <Animated.View style={style}>
         <Animated.View
@@ -1013,14 +2674,22 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
           <Animated.View
             ref={ref}
             onLayout={onCellLayout}
-            style={isActiveCell ? {opacity: 0} : undefined}>
+            style={isActiveCell ? this.props.activeSlotStyle : undefined}>
             <RowItem
               extraData={this.props.extraData}
               itemKey={key}
               keyToIndex={this.keyToIndex}
               renderItem={this.props.renderItem}
+              renderItemPreview={this.renderItemPreview}
               item={item}
+              isLocked={this.isCellLocked(index)}
+              isSelected={(this.props.selectedKeys || []).includes(key)}
+              toggleSelection={this.toggleSelection}
               drag={this.drag}
+              dragActivation={this.props.dragActivation}
+              longPressDelay={this.props.longPressDelay!}
+              accessibilityActions={this.getAccessibilityActions(key)}
+              onAccessibilityAction={this.onAccessibilityAction}
               onUnmount={onUnmount}
             />
           </Animated.View>
@@ -1029,6 +2698,24 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     );
   };
 
+  renderCandidateSpacerIndex = () => (
+    <Animated.Code>
+      {() =>
+        onChange(
+          this.candidateSpacerIndex,
+          cond(
+            this.hasCanDrop,
+            call(
+              [this.activeIndex, this.candidateSpacerIndex],
+              this.onCandidateSpacerIndexChange,
+            ),
+            set(this.spacerIndex, this.candidateSpacerIndex),
+          ),
+        )
+      }
+    </Animated.Code>
+  );
+
   renderOnPlaceholderIndexChange = () => (
     <Animated.Code>
       {() =>
@@ -1050,19 +2737,21 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     if (!activeKey || !renderPlaceholder) return null;
     const activeIndex = this.keyToIndex.get(activeKey);
     if (activeIndex === undefined) return null;
-    const activeItem = this.props.data[activeIndex];
-    const translateKey = horizontal ? 'translateX' : 'translateY';
-    const sizeKey = horizontal ? 'width' : 'height';
+    const activeItem = this.headersAndData[activeIndex];
+    // Spans the list across its axis and is as long as the dragged cells
     const style = {
-      ...StyleSheet.absoluteFillObject,
-      [sizeKey]: this.activeCellSize,
-      transform: [
-        {[translateKey]: this.placeholderPos},
-      ] as Animated.AnimatedTransform,
+      ...getAxisLength(horizontal, this.activeCellSize),
+      transform: getAxisTransform(horizontal, this.placeholderPos),
     };
 
     return (
-      <Animated.View style={style}>
+      <Animated.View
+        style={[
+          horizontal
+            ? styles.placeholderHorizontal
+            : styles.placeholderVertical,
+          style,
+        ]}>
         {renderPlaceholder({item: activeItem, index: activeIndex})}
       </Animated.View>
     );
@@ -1103,9 +2792,11 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
     let dynamicProps = {};
     if (activationDistance) {
       const activeOffset = [-activationDistance, activationDistance];
-      dynamicProps = horizontal
-        ? {activeOffsetX: activeOffset}
-        : {activeOffsetY: activeOffset};
+      dynamicProps = alongAxis(
+        horizontal,
+        {activeOffsetX: activeOffset},
+        {activeOffsetY: activeOffset},
+      );
     }
     return (
       <PanGestureHandler
@@ -1120,6 +2811,7 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
           onLayout={this.onContainerLayout}
           onTouchEnd={this.onContainerTouchEnd}>
           {!!onPlaceholderIndexChange && this.renderOnPlaceholderIndexChange()}
+          {this.renderCandidateSpacerIndex()}
           {!!renderPlaceholder && this.renderPlaceholder()}
           <AnimatedSectionList
             {...this.props}
@@ -1130,6 +2822,10 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
             renderSectionHeader={this.renderSectionHeader}
             extraData={this.state}
             keyExtractor={this.keyExtractor}
+            getItemLayout={
+              this.props.getItemLayout ||
+              (this.cellLayouts ? this.getItemLayout : undefined)
+            }
             scrollEnabled={!hoverComponent && scrollEnabled}
             onScroll={this.onScroll}
             scrollEventThrottle={1}
@@ -1142,7 +2838,20 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
                   this.isPressedIn.native,
                   cond(not(this.isPressedIn.native), this.onGestureRelease),
                 ),
-                onChange(this.touchAbsolute, this.checkAutoscroll),
+                this.autoscroll,
+                onChange(this.isLifted, [
+                  set(this.liftState.finished, 0),
+                  set(this.liftState.time, 0),
+                  set(this.liftConfig.toValue, this.isLifted),
+                  cond(
+                    not(clockRunning(this.liftClock)),
+                    startClock(this.liftClock),
+                  ),
+                ]),
+                cond(clockRunning(this.liftClock), [
+                  spring(this.liftClock, this.liftState, this.liftConfig),
+                  cond(this.liftState.finished, stopClock(this.liftClock)),
+                ]),
                 cond(clockRunning(this.hoverClock), [
                   spring(
                     this.hoverClock,
@@ -1171,6 +2880,18 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
               }
             </Animated.Code>
           )}
+          {!!this.context && (
+            <Animated.Code>
+              {() =>
+                onChange(
+                  this.scrollOffset,
+                  call([this.scrollOffset], ([offset]) => {
+                    this.scrollOffsetJs = offset;
+                  }),
+                )
+              }
+            </Animated.Code>
+          )}
           {debug && this.renderDebug()}
         </Animated.View>
       </PanGestureHandler>
@@ -1180,33 +2901,85 @@ class DraggableSectionList<T> extends React.Component<Props<T>, State> {
 
 export default DraggableSectionList;
 
-type RowSectionProps<T> = {
+export {flattenSections, moveFlatIndex, regroupSections} from './reorder';
+export type {Section} from './reorder';
+export {DragProvider} from './DragProvider';
+export {DropZone} from './DropZone';
+export {useReorderHistory} from './history';
+export {serializeOrder, applyOrder} from './order';
+export type {SavedOrder, PersistenceAdapter} from './order';
+export {getReorderOperations, toJsonPatch} from './operations';
+export {getRankBetween, getRebalancedRanks} from './rank';
+export type {ReorderOperation, JsonPatchOperation} from './operations';
+export {DragHandle} from './DragHandle';
+export type {DragActivation} from './DragHandle';
+
+type RowSectionProps<TItem, TSection> = {
   extraData?: any;
-  drag: (hoverComponent: React.ReactNode, itemKey: string) => void;
+  drag: (
+    hoverComponent: React.ReactNode,
+    itemKey: string,
+    isSectionDrag: boolean,
+  ) => void;
+  dragActivation?: DragActivation;
+  longPressDelay: number;
   keyToIndex: Map<string, number>;
-  item: RenderItemParams<T>;
-  renderSectionHeader: (params: RenderItemParams<T>) => React.ReactNode;
+  item: Section<TItem, TSection>;
+  sectionIndex: number;
+  renderSectionHeader: (
+    params: RenderSectionHeaderParams<TItem, TSection>,
+  ) => React.ReactNode;
+  renderItem: (params: RenderItemParams<TItem, TSection>) => React.ReactNode;
+  renderHoverCell: (index: number, isSectionDrag: boolean) => React.ReactNode;
   itemKey: string;
+  accessibilityActions: AccessibilityActionInfo[];
+  onAccessibilityAction: (itemKey: string, action: string) => void;
   onUnmount: () => void;
   debug?: boolean;
 };
 
-type RowItemProps<T> = {
+type RowItemProps<TItem, TSection> = {
   extraData?: any;
   drag: (hoverComponent: React.ReactNode, itemKey: string) => void;
+  dragActivation?: DragActivation;
+  longPressDelay: number;
   keyToIndex: Map<string, number>;
-  item: RenderItemParams<T>;
-  renderItem: (params: RenderItemParams<T>) => React.ReactNode;
+  item: ItemInfo<TItem, TSection>;
+  renderItem: (params: RenderItemParams<TItem, TSection>) => React.ReactNode;
+  renderItemPreview: (
+    params: RenderItemParams<TItem, TSection>,
+  ) => React.ReactNode;
   itemKey: string;
+  isLocked: boolean;
+  isSelected: boolean;
+  toggleSelection: (itemKey: string) => void;
+  accessibilityActions: AccessibilityActionInfo[];
+  onAccessibilityAction: (itemKey: string, action: string) => void;
   onUnmount: () => void;
   debug?: boolean;
 };
 
-class RowItem<T> extends React.PureComponent<RowItemProps<T>> {
+class RowItem<TItem, TSection> extends React.PureComponent<
+  RowItemProps<TItem, TSection>
+> {
   drag = () => {
-    const {drag, renderItem, item, keyToIndex, itemKey, debug} = this.props;
-    const hoverComponent = renderItem({
+    const {
+      drag,
+      renderItemPreview,
+      item,
+      keyToIndex,
+      itemKey,
+      isLocked,
+      isSelected,
+      debug,
+    } = this.props;
+    if (isLocked) {
+      if (debug) console.log('## attempt to call drag() on locked item');
+      return;
+    }
+    const hoverComponent = renderItemPreview({
       isActive: true,
+      isSelected,
       item,
       index: keyToIndex.get(itemKey),
       drag: () => {
@@ -1217,41 +2990,67 @@ class RowItem<T> extends React.PureComponent<RowItemProps<T>> {
     drag(hoverComponent, itemKey);
   };
 
+  toggleSelection = () => {
+    const {toggleSelection, itemKey} = this.props;
+    toggleSelection(itemKey);
+  };
+
+  onAccessibilityAction = ({nativeEvent}: AccessibilityActionEvent) => {
+    const {onAccessibilityAction, itemKey} = this.props;
+    onAccessibilityAction(itemKey, nativeEvent.actionName);
+  };
+
   componentWillUnmount() {
     this.props.onUnmount();
   }
 
   render() {
-    const {renderItem, item, keyToIndex, itemKey} = this.props;
-    return renderItem({
-      isActive: false,
-      item,
-      index: keyToIndex.get(itemKey),
-      drag: this.drag,
-    });
-  }
-}
-
-class RowSection<T> extends React.PureComponent<RowSectionProps<T>> {
-  drag = () => {
     const {
-      drag,
-      renderSectionHeader,
+      renderItem,
       item,
       keyToIndex,
       itemKey,
-      debug,
+      isSelected,
+      accessibilityActions,
+      dragActivation,
+      longPressDelay,
     } = this.props;
-    const hoverComponent = renderSectionHeader({
-      isActive: true,
-      item,
-      index: keyToIndex.get(itemKey),
-      drag: () => {
-        if (debug)
-          console.log('## attempt to call drag() on hovering component');
-      },
-    });
-    drag(hoverComponent, itemKey);
+    return (
+      <RowDragContext.Provider value={this.drag}>
+        <DragActivator
+          activation={dragActivation}
+          longPressDelay={longPressDelay}
+          onActivate={this.drag}>
+          {renderItem({
+            isActive: false,
+            isSelected,
+            toggleSelection: this.toggleSelection,
+            accessibilityActions,
+            onAccessibilityAction: this.onAccessibilityAction,
+            item,
+            index: keyToIndex.get(itemKey),
+            drag: this.drag,
+          })}
+        </DragActivator>
+      </RowDragContext.Provider>
+    );
+  }
+}
+
+class RowSection<TItem, TSection> extends React.PureComponent<
+  RowSectionProps<TItem, TSection>
+> {
+  drag = () => {
+    const {drag, renderHoverCell, keyToIndex, itemKey} = this.props;
+    const headerIndex = keyToIndex.get(itemKey);
+    if (headerIndex === undefined) return;
+    // Lift the header together with every row of its section
+    drag(renderHoverCell(headerIndex, true), itemKey, true);
+  };
+
+  onAccessibilityAction = ({nativeEvent}: AccessibilityActionEvent) => {
+    const {onAccessibilityAction, itemKey} = this.props;
+    onAccessibilityAction(itemKey, nativeEvent.actionName);
   };
 
   componentWillUnmount() {
@@ -1259,13 +3058,31 @@ class RowSection<T> extends React.PureComponent<RowSectionProps<T>> {
   }
 
   render() {
-    const {renderSectionHeader, item, keyToIndex, itemKey} = this.props;
-    return renderSectionHeader({
-      isActive: false,
+    const {
+      renderSectionHeader,
       item,
-      index: keyToIndex.get(itemKey),
-      drag: this.drag,
-    });
+      sectionIndex,
+      accessibilityActions,
+      dragActivation,
+      longPressDelay,
+    } = this.props;
+    return (
+      <RowDragContext.Provider value={this.drag}>
+        <DragActivator
+          activation={dragActivation}
+          longPressDelay={longPressDelay}
+          onActivate={this.drag}>
+          {renderSectionHeader({
+            isActive: false,
+            accessibilityActions,
+            onAccessibilityAction: this.onAccessibilityAction,
+            section: item,
+            sectionIndex,
+            drag: this.drag,
+          })}
+        </DragActivator>
+      </RowDragContext.Provider>
+    );
   }
 }
 
@@ -1273,6 +3090,9 @@ const styles = StyleSheet.create({
   flex: {
     flex: 1,
   },
+  row: {
+    flexDirection: 'row',
+  },
   hoverComponentVertical: {
     position: 'absolute',
     left: 0,
@@ -1282,5 +3102,18 @@ const styles = StyleSheet.create({
     position: 'absolute',
     bottom: 0,
     top: 0,
+    flexDirection: 'row',
+  },
+  placeholderVertical: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+  },
+  placeholderHorizontal: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
   },
 });
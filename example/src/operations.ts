@@ -0,0 +1,205 @@
+import {Section} from './reorder';
+import {SavedOrder, serializeOrder} from './order';
+
+/**
+ * Moves a cell right after `afterKey`, or to the start when it is null.
+ * Applying the operations one after another with `afterKey` turns the order
+ * before into the order after. `beforeKey` is the cell that follows the moved
+ * one once all operations are applied.
+ */
+export type ReorderOperation =
+  | {
+      op: 'move';
+      key: string;
+      toSectionKey: string;
+      afterKey: string | null;
+      beforeKey: string | null;
+    }
+  | {
+      op: 'moveSection';
+      key: string;
+      afterKey: string | null;
+      beforeKey: string | null;
+    };
+
+export type JsonPatchOperation = {
+  op: 'move';
+  from: string;
+  path: string;
+};
+
+type KeyExtractor<TItem, TSection> = (
+  item: TItem | TSection,
+  index: number,
+) => string;
+
+/**
+ * Keys that keep their place: the longest run of keys that are in the same
+ * order before and after. Every other key has to be moved.
+ */
+function getStableKeys(before: string[], after: string[]) {
+  const beforeIndices = new Map(before.map((key, i) => [key, i]));
+  const candidates = after.filter((key) => beforeIndices.has(key));
+  // Longest increasing subsequence of the keys' indices before
+  const tails: number[] = [];
+  const prev: number[] = [];
+  candidates.forEach((key, i) => {
+    const index = beforeIndices.get(key)!;
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (beforeIndices.get(candidates[tails[mid]])! < index) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    prev[i] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = i;
+  });
+  const stable = new Set<string>();
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = prev[i]) {
+    stable.add(candidates[i]);
+  }
+  return stable;
+}
+
+function getOrderOperations(
+  before: SavedOrder,
+  after: SavedOrder,
+): ReorderOperation[] {
+  const operations: ReorderOperation[] = [];
+
+  const stableSections = getStableKeys(before.sectionKeys, after.sectionKeys);
+  after.sectionKeys.forEach((key, i) => {
+    if (stableSections.has(key)) return;
+    operations.push({
+      op: 'moveSection',
+      key,
+      afterKey: after.sectionKeys[i - 1] ?? null,
+      beforeKey: after.sectionKeys[i + 1] ?? null,
+    });
+  });
+
+  after.sectionKeys.forEach((sectionKey) => {
+    const itemKeys = after.itemKeysBySection[sectionKey] || [];
+    const stableItems = getStableKeys(
+      before.itemKeysBySection[sectionKey] || [],
+      itemKeys,
+    );
+    itemKeys.forEach((key, i) => {
+      if (stableItems.has(key)) return;
+      operations.push({
+        op: 'move',
+        key,
+        toSectionKey: sectionKey,
+        afterKey: itemKeys[i - 1] ?? null,
+        beforeKey: itemKeys[i + 1] ?? null,
+      });
+    });
+  });
+  return operations;
+}
+
+/**
+ * The fewest moves that turn the sections before into the sections after.
+ * Sections are moved first, then items, each in their final order. Items
+ * that only exist after, e.g. ones dropped in from another list, are moved
+ * in as well.
+ */
+export function getReorderOperations<TItem, TSection>(
+  before: Section<TItem, TSection>[],
+  after: Section<TItem, TSection>[],
+  keyExtractor: KeyExtractor<TItem, TSection>,
+): ReorderOperation[] {
+  return getOrderOperations(
+    serializeOrder(before, keyExtractor),
+    serializeOrder(after, keyExtractor),
+  );
+}
+
+/**
+ * Serializes operations as RFC 6902 JSON Patch moves on the sections before
+ * them, with paths like `/1` for sections and `/1/data/2` for items. Items
+ * that aren't in the sections before can't be expressed as a move and are
+ * left out, items moved next to them go next to their closest neighbour that
+ * is there instead.
+ */
+export function toJsonPatch<TItem, TSection>(
+  before: Section<TItem, TSection>[],
+  operations: ReorderOperation[],
+  keyExtractor: KeyExtractor<TItem, TSection>,
+): JsonPatchOperation[] {
+  const {sectionKeys, itemKeysBySection} = serializeOrder(before, keyExtractor);
+  const sections = sectionKeys.map((key) => ({
+    key,
+    itemKeys: [...itemKeysBySection[key]],
+  }));
+  const findSection = (key: string) =>
+    sections.findIndex((section) => section.key === key);
+  const itemOperations = new Map<string, ReorderOperation>();
+  operations.forEach((operation) => {
+    if (operation.op === 'move') {
+      itemOperations.set(operation.key, operation);
+    }
+  });
+  // Items that were left out aren't there to be moved after, so the item
+  // goes after the closest one in front of them that is, or before the
+  // item that follows it
+  const findInsertIndex = (
+    itemKeys: string[],
+    afterKey: string | null,
+    beforeKey: string | null,
+  ) => {
+    for (let key = afterKey; key !== null; ) {
+      const index = itemKeys.indexOf(key);
+      if (index !== -1) {
+        return index + 1;
+      }
+      const operation = itemOperations.get(key);
+      if (!operation) {
+        const beforeIndex =
+          beforeKey === null ? -1 : itemKeys.indexOf(beforeKey);
+        return beforeIndex === -1 ? itemKeys.length : beforeIndex;
+      }
+      key = operation.afterKey;
+    }
+    return 0;
+  };
+  const patch: JsonPatchOperation[] = [];
+
+  operations.forEach((operation) => {
+    if (operation.op === 'moveSection') {
+      const from = findSection(operation.key);
+      if (from === -1) return;
+      const [section] = sections.splice(from, 1);
+      const to =
+        operation.afterKey === null ? 0 : findSection(operation.afterKey) + 1;
+      sections.splice(to, 0, section);
+      patch.push({op: 'move', from: `/${from}`, path: `/${to}`});
+      return;
+    }
+    const fromSection = sections.findIndex(({itemKeys}) =>
+      itemKeys.includes(operation.key),
+    );
+    const toSection = findSection(operation.toSectionKey);
+    if (fromSection === -1 || toSection === -1) return;
+    const fromItemKeys = sections[fromSection].itemKeys;
+    const from = fromItemKeys.indexOf(operation.key);
+    fromItemKeys.splice(from, 1);
+    const toItemKeys = sections[toSection].itemKeys;
+    const to = findInsertIndex(
+      toItemKeys,
+      operation.afterKey,
+      operation.beforeKey,
+    );
+    toItemKeys.splice(to, 0, operation.key);
+    patch.push({
+      op: 'move',
+      from: `/${fromSection}/data/${from}`,
+      path: `/${toSection}/data/${to}`,
+    });
+  });
+  return patch;
+}
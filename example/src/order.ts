@@ -0,0 +1,112 @@
+import {Section, flattenSections} from './reorder';
+
+/** Keys of the sections and of the items in each section, in order */
+export type SavedOrder = {
+  sectionKeys: string[];
+  itemKeysBySection: {[sectionKey: string]: string[]};
+};
+
+type MaybePromise<T> = T | Promise<T>;
+
+/** Where a list loads its saved order from and saves it to */
+export type PersistenceAdapter = {
+  get: () => MaybePromise<SavedOrder | null | undefined>;
+  set: (order: SavedOrder) => MaybePromise<void>;
+};
+
+type KeyExtractor<TItem, TSection> = (
+  item: TItem | TSection,
+  index: number,
+) => string;
+
+export type ApplyOrderOptions<TItem, TSection> = {
+  keyExtractor: KeyExtractor<TItem, TSection>;
+  // Where sections and items that aren't part of the saved order go
+  unknownItems?: 'append' | 'prepend';
+};
+
+/**
+ * Saves the order of sections and items by their keys. Keys are extracted
+ * with the flat index the list passes to its keyExtractor.
+ */
+export function serializeOrder<TItem, TSection>(
+  sections: Section<TItem, TSection>[],
+  keyExtractor: KeyExtractor<TItem, TSection>,
+): SavedOrder {
+  const {cells, ranges} = flattenSections(sections);
+  const order: SavedOrder = {sectionKeys: [], itemKeysBySection: {}};
+  ranges.forEach(({start, end}) => {
+    const sectionKey = keyExtractor(cells[start], start);
+    order.sectionKeys.push(sectionKey);
+    order.itemKeysBySection[sectionKey] = cells
+      .slice(start + 1, end + 1)
+      .map((cell, i) => keyExtractor(cell, start + i + 1));
+  });
+  return order;
+}
+
+/**
+ * Reorders fresh sections the way they were saved. Items go back into the
+ * section they were saved in as long as it still exists. Keys that are no
+ * longer in the fresh sections are skipped, and sections and items that
+ * weren't saved keep their relative order at the end, or the start, of the
+ * list and of their section.
+ */
+export function applyOrder<TItem, TSection>(
+  sections: Section<TItem, TSection>[],
+  savedOrder: SavedOrder,
+  {keyExtractor, unknownItems = 'append'}: ApplyOrderOptions<TItem, TSection>,
+): Section<TItem, TSection>[] {
+  const {cells, ranges} = flattenSections(sections);
+  const sectionsByKey = new Map<string, Section<TItem, TSection>>();
+  const itemKeysBySection = new Map<string, string[]>();
+  const itemsByKey = new Map<string, TItem>();
+  ranges.forEach(({start, end}, sectionIndex) => {
+    const sectionKey = keyExtractor(cells[start], start);
+    const itemKeys: string[] = [];
+    for (let i = start + 1; i <= end; i++) {
+      const itemKey = keyExtractor(cells[i], i);
+      itemKeys.push(itemKey);
+      itemsByKey.set(itemKey, cells[i] as TItem);
+    }
+    sectionsByKey.set(sectionKey, sections[sectionIndex]);
+    itemKeysBySection.set(sectionKey, itemKeys);
+  });
+
+  const place = <T>(known: T[], unknown: T[]) =>
+    unknownItems === 'prepend'
+      ? [...unknown, ...known]
+      : [...known, ...unknown];
+
+  const savedSectionKeys = new Set(savedOrder.sectionKeys);
+  const knownSectionKeys = savedOrder.sectionKeys.filter((key) =>
+    sectionsByKey.has(key),
+  );
+  const unknownSectionKeys = [...sectionsByKey.keys()].filter(
+    (key) => !savedSectionKeys.has(key),
+  );
+
+  const placedItemKeys = new Set<string>();
+  const savedItemKeysBySection = new Map<string, string[]>();
+  knownSectionKeys.forEach((sectionKey) => {
+    const itemKeys = (savedOrder.itemKeysBySection[sectionKey] || []).filter(
+      (key) => itemsByKey.has(key) && !placedItemKeys.has(key),
+    );
+    itemKeys.forEach((key) => placedItemKeys.add(key));
+    savedItemKeysBySection.set(sectionKey, itemKeys);
+  });
+
+  return place(knownSectionKeys, unknownSectionKeys).map((sectionKey) => {
+    const unknownItemKeys = itemKeysBySection
+      .get(sectionKey)!
+      .filter((key) => !placedItemKeys.has(key));
+    const itemKeys = place(
+      savedItemKeysBySection.get(sectionKey) || [],
+      unknownItemKeys,
+    );
+    return {
+      ...sectionsByKey.get(sectionKey)!,
+      data: itemKeys.map((key) => itemsByKey.get(key)!),
+    };
+  });
+}
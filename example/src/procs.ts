@@ -20,6 +20,7 @@ let {
   lessThan,
   lessOrEq,
   multiply,
+  min,
 } = Animated;
 
 if (!proc) {
@@ -29,8 +30,22 @@ if (!proc) {
 }
 
 export const getIsAfterActive = proc(
-  (currentIndex: Animated.Node<number>, activeIndex: Animated.Node<number>) =>
-    greaterThan(currentIndex, activeIndex),
+  (
+    currentIndex: Animated.Node<number>,
+    activeBlockEnd: Animated.Node<number>,
+  ) => greaterThan(currentIndex, activeBlockEnd),
+);
+
+export const getIsInActiveBlock = proc(
+  (
+    currentIndex: Animated.Node<number>,
+    activeIndex: Animated.Node<number>,
+    activeBlockEnd: Animated.Node<number>,
+  ) =>
+    and(
+      greaterOrEq(currentIndex, activeIndex),
+      lessOrEq(currentIndex, activeBlockEnd),
+    ),
 );
 
 export const getCellStart = proc(
@@ -67,6 +82,31 @@ export const hardReset = proc(
     block([set(position, 0), set(finished, 0), set(time, 0), set(toValue, 0)]),
 );
 
+// While dragging a whole section, headers stand in for their entire section
+export const getDropTargetSize = proc(
+  (
+    isSectionDrag: Animated.Node<number>,
+    sectionSize: Animated.Node<number>,
+    size: Animated.Node<number>,
+  ) => cond(isSectionDrag, sectionSize, size),
+);
+
+// Where the first half of a drop target ends. An empty section has no item
+// cells to compare against, so while dragging an item its whole header cell
+// counts as the target for dropping into that section.
+export const getDropTargetMid = proc(
+  (
+    isSectionDrag: Animated.Node<number>,
+    isEmptySectionHeader: Animated.Node<number>,
+    dropTargetSize: Animated.Node<number>,
+  ) =>
+    cond(
+      and(not(isSectionDrag), isEmptySectionHeader),
+      0,
+      divide(dropTargetSize, 2),
+    ),
+);
+
 /**
  * The in react-native-reanimated.d.ts definition of `proc` only has generics
  * for up to 10 arguments. We cast it to accept any params to avoid errors when
@@ -102,52 +142,85 @@ export const setupCell = (proc as RetypedProc)(
     onFinished: Animated.Node<number>,
     isPressedIn: Animated.Node<number>,
     placeholderOffset: Animated.Value<number>,
-  ) =>
-    block([
-      set(isAfterActive, getIsAfterActive(currentIndex, activeIndex)),
+    activeBlockEnd: Animated.Node<number>,
+    isSectionDrag: Animated.Node<number>,
+    sectionEnd: Animated.Node<number>,
+    sectionSize: Animated.Node<number>,
+    candidateSpacerIndex: Animated.Value<number>,
+    minSpacerIndex: Animated.Node<number>,
+    maxSpacerIndex: Animated.Node<number>,
+    isEmptySectionHeader: Animated.Node<number>,
+    collapseShift: Animated.Node<number>,
+  ) => {
+    const dropTargetSize = getDropTargetSize(isSectionDrag, sectionSize, size);
+    const dropTargetMid = add(
+      offset,
+      getDropTargetMid(isSectionDrag, isEmptySectionHeader, dropTargetSize),
+    );
+    const dropTargetEnd = add(offset, dropTargetSize);
+    return block([
+      set(isAfterActive, getIsAfterActive(currentIndex, activeBlockEnd)),
 
       // Determining spacer index is hard to visualize.
       // see diagram here: https://i.imgur.com/jRPf5t3.jpg
+      // While dragging a whole section only headers move the spacer, and they
+      // compare against the size of their entire section instead of their own.
+      // The result is only a candidate: it is the same node as spacerIndex
+      // unless drops have to be validated before the spacer may move.
+      // Cells outside of [minSpacerIndex, maxSpacerIndex] lie beyond a locked
+      // row and never move the spacer, so locked rows are never displaced.
       cond(
-        isPressedIn,
+        and(
+          isPressedIn,
+          or(not(isSectionDrag), neq(sectionEnd, -1)),
+          greaterOrEq(currentIndex, minSpacerIndex),
+          lessOrEq(currentIndex, maxSpacerIndex),
+        ),
         cond(
           isAfterActive,
           [
             cond(
               and(
                 greaterOrEq(add(hoverOffset, activeCellSize), offset),
-                lessThan(
-                  add(hoverOffset, activeCellSize),
-                  add(offset, divide(size, 2)),
+                lessThan(add(hoverOffset, activeCellSize), dropTargetMid),
+              ),
+              set(
+                candidateSpacerIndex,
+                cond(
+                  eq(sub(currentIndex, 1), activeBlockEnd),
+                  activeIndex,
+                  sub(currentIndex, 1),
                 ),
               ),
-              set(spacerIndex, sub(currentIndex, 1)),
             ),
             cond(
               and(
-                greaterOrEq(
-                  add(hoverOffset, activeCellSize),
-                  add(offset, divide(size, 2)),
-                ),
-                lessThan(add(hoverOffset, activeCellSize), add(offset, size)),
+                greaterOrEq(add(hoverOffset, activeCellSize), dropTargetMid),
+                lessThan(add(hoverOffset, activeCellSize), dropTargetEnd),
+              ),
+              set(
+                candidateSpacerIndex,
+                cond(isSectionDrag, sectionEnd, currentIndex),
               ),
-              set(spacerIndex, currentIndex),
             ),
           ],
           cond(lessThan(currentIndex, activeIndex), [
             cond(
               and(
-                lessThan(hoverOffset, add(offset, size)),
-                greaterOrEq(hoverOffset, add(offset, divide(size, 2))),
+                lessThan(hoverOffset, dropTargetEnd),
+                greaterOrEq(hoverOffset, dropTargetMid),
+              ),
+              set(
+                candidateSpacerIndex,
+                add(cond(isSectionDrag, sectionEnd, currentIndex), 1),
               ),
-              set(spacerIndex, add(currentIndex, 1)),
             ),
             cond(
               and(
                 greaterOrEq(hoverOffset, offset),
-                lessThan(hoverOffset, add(offset, divide(size, 2))),
+                lessThan(hoverOffset, dropTargetMid),
               ),
-              set(spacerIndex, currentIndex),
+              set(candidateSpacerIndex, currentIndex),
             ),
           ]),
         ),
@@ -155,22 +228,31 @@ export const setupCell = (proc as RetypedProc)(
 
       // Translate cell down if it is before active index and active cell has passed it.
       // Translate cell up if it is after the active index and active cell has passed it.
+      // Cells that are part of the dragged block never translate, the others
+      // are additionally shifted to close the gaps of gathered selected cells.
       cond(
-        neq(currentIndex, activeIndex),
+        not(getIsInActiveBlock(currentIndex, activeIndex, activeBlockEnd)),
         set(
           translate,
-          cond(
-            cond(
-              isAfterActive,
-              lessOrEq(currentIndex, spacerIndex),
-              greaterOrEq(currentIndex, spacerIndex),
-            ),
+          add(
+            collapseShift,
             cond(
-              isHovering,
-              cond(isAfterActive, multiply(activeCellSize, -1), activeCellSize),
+              cond(
+                isAfterActive,
+                lessOrEq(currentIndex, spacerIndex),
+                greaterOrEq(currentIndex, spacerIndex),
+              ),
+              cond(
+                isHovering,
+                cond(
+                  isAfterActive,
+                  multiply(activeCellSize, -1),
+                  activeCellSize,
+                ),
+                0,
+              ),
               0,
             ),
-            0,
           ),
         ),
       ),
@@ -218,7 +300,60 @@ export const setupCell = (proc as RetypedProc)(
         ),
       ),
       position,
-    ]),
+    ]);
+  },
+);
+
+// A stuck section header is pinned to the top of the list by the list itself,
+// so it stays put while the cells beneath it move. The header that is stuck
+// reports how much of the viewport it covers, which shrinks once the next
+// header pushes it out.
+export const getStickyHeaderTranslate = (proc as RetypedProc)(
+  (
+    translate: Animated.Node<number>,
+    areHeadersSticky: Animated.Node<number>,
+    currentIndex: Animated.Node<number>,
+    isHeader: Animated.Node<number>,
+    isActiveCell: Animated.Node<number>,
+    size: Animated.Node<number>,
+    offset: Animated.Node<number>,
+    sectionSize: Animated.Node<number>,
+    scrollOffset: Animated.Node<number>,
+    stuckHeaderIndex: Animated.Value<number>,
+    stuckHeaderSize: Animated.Value<number>,
+  ) => {
+    const isStuck = and(
+      areHeadersSticky,
+      isHeader,
+      lessOrEq(offset, scrollOffset),
+      greaterThan(add(offset, sectionSize), scrollOffset),
+    );
+    return block([
+      translate,
+      cond(
+        isStuck,
+        [
+          set(stuckHeaderIndex, currentIndex),
+          set(
+            stuckHeaderSize,
+            cond(
+              isActiveCell,
+              0,
+              min(size, sub(add(offset, sectionSize), scrollOffset)),
+            ),
+          ),
+          0,
+        ],
+        [
+          cond(eq(stuckHeaderIndex, currentIndex), [
+            set(stuckHeaderIndex, -1),
+            set(stuckHeaderSize, 0),
+          ]),
+          translate,
+        ],
+      ),
+    ]);
+  },
 );
 
 const betterSpring = (proc as RetypedProc)(
@@ -0,0 +1,58 @@
+// Ranks are base 36 fractions: '0i' sorts, and lies, between '' and '1'
+const digits = '0123456789abcdefghijklmnopqrstuvwxyz';
+const base = digits.length;
+
+// Ranks longer than this are rebalanced
+export const maxRankLength = 12;
+
+const toDigit = (char: string) => digits.indexOf(char);
+
+/**
+ * A rank that sorts between `before` and `after`, which must sort in that
+ * order. Null stands for the start or the end of the list.
+ */
+export function getRankBetween(
+  before: string | null,
+  after: string | null,
+): string {
+  const lower = before || '';
+  let upper = after;
+  let rank = '';
+  for (let i = 0; ; i++) {
+    const lowerDigit = i < lower.length ? toDigit(lower[i]) : 0;
+    const upperDigit =
+      upper !== null && i < upper.length ? toDigit(upper[i]) : base;
+    if (lowerDigit === upperDigit) {
+      rank += digits[lowerDigit];
+      continue;
+    }
+    const mid = Math.floor((lowerDigit + upperDigit) / 2);
+    if (mid > lowerDigit) return rank + digits[mid];
+    // The digits are adjacent, so whatever follows the lower one may grow
+    // without reaching the upper one
+    rank += digits[lowerDigit];
+    upper = null;
+  }
+}
+
+/** `count` ranks spread evenly, as short as they can be */
+export function getRebalancedRanks(count: number): string[] {
+  let length = 1;
+  while (Math.pow(base, length) <= count) {
+    length++;
+  }
+  const space = Math.pow(base, length);
+  return Array.from({length: count}, (_, i) => {
+    let value = Math.floor(((i + 1) * space) / (count + 1));
+    let rank = '';
+    for (let j = 0; j < length; j++) {
+      rank = digits[value % base] + rank;
+      value = Math.floor(value / base);
+    }
+    // Trailing zeros don't change where a rank sorts, but nothing could be
+    // ranked right before a rank ending in one
+    return rank.replace(/0+$/, '');
+  });
+}
+
+export const needsRebalance = (rank: string) => rank.length > maxRankLength;
@@ -0,0 +1,136 @@
+export type Section<TItem = any, THeader = any> = {
+  section: THeader;
+  data: TItem[];
+};
+
+/** Flat [start, end] index range of a section's header and its items */
+export type SectionRange = {
+  start: number;
+  end: number;
+};
+
+export type FlattenedSections<TItem = any, THeader = any> = {
+  cells: (TItem | THeader)[];
+  ranges: SectionRange[];
+};
+
+export type CellPosition = {
+  sectionIndex: number;
+  itemIndex: number; // -1 for section headers
+};
+
+/**
+ * Flattens sections into the [header, ...items, header, ...items] list the
+ * draggable cells are indexed by.
+ */
+export function flattenSections<TItem, THeader>(
+  sections: Section<TItem, THeader>[],
+): FlattenedSections<TItem, THeader> {
+  const cells: (TItem | THeader)[] = [];
+  const ranges: SectionRange[] = [];
+  sections.forEach(({section, data}) => {
+    const start = cells.length;
+    cells.push(section, ...data);
+    ranges.push({start, end: cells.length - 1});
+  });
+  return {cells, ranges};
+}
+
+/**
+ * Moves `count` cells starting at `from` to the spacer index `to`. A spacer
+ * index after the block refers to the last cell the block is dropped behind,
+ * one before it refers to the cell the block is dropped in front of.
+ */
+export function moveFlatIndex<T>(
+  cells: T[],
+  from: number,
+  to: number,
+  count = 1,
+): T[] {
+  const moved = [...cells];
+  if (from === to || count < 1) {
+    return moved;
+  }
+  const block = moved.splice(from, count);
+  const insertAt = to > from ? to - count + 1 : to;
+  moved.splice(insertAt, 0, ...block);
+  return moved;
+}
+
+/**
+ * Rebuilds sections from a flat list of cells. Headers always start a new
+ * section, so a header followed directly by another header (or by the end of
+ * the list) yields an empty section. Items that end up before the first header
+ * are prepended to the first section; without any header there is no section
+ * to hold them and an empty list is returned.
+ */
+export function regroupSections<TItem, THeader>(
+  cells: (TItem | THeader)[],
+  isSectionHeader: (cell: TItem | THeader) => boolean,
+): Section<TItem, THeader>[] {
+  const sections: Section<TItem, THeader>[] = [];
+  const leadingItems: TItem[] = [];
+  cells.forEach((cell) => {
+    if (isSectionHeader(cell)) {
+      sections.push({section: cell as THeader, data: []});
+    } else if (sections.length) {
+      sections[sections.length - 1].data.push(cell as TItem);
+    } else {
+      leadingItems.push(cell as TItem);
+    }
+  });
+  if (sections.length) {
+    sections[0].data.unshift(...leadingItems);
+  }
+  return sections;
+}
+
+/** Section and item coordinates of a flat index */
+export function locateFlatIndex(
+  ranges: SectionRange[],
+  flatIndex: number,
+): CellPosition {
+  const sectionIndex = ranges.findIndex(
+    ({start, end}) => flatIndex >= start && flatIndex <= end,
+  );
+  if (sectionIndex === -1) {
+    return {sectionIndex, itemIndex: -1};
+  }
+  return {sectionIndex, itemIndex: flatIndex - ranges[sectionIndex].start - 1};
+}
+
+/** Section and item coordinates of a header or item within sections */
+export function locateCell<TItem, THeader>(
+  sections: Section<TItem, THeader>[],
+  cell: TItem | THeader,
+): CellPosition {
+  for (let sectionIndex = 0; sectionIndex < sections.length; sectionIndex++) {
+    const {section, data} = sections[sectionIndex];
+    if (section === cell) {
+      return {sectionIndex, itemIndex: -1};
+    }
+    const itemIndex = data.indexOf(cell as TItem);
+    if (itemIndex !== -1) {
+      return {sectionIndex, itemIndex};
+    }
+  }
+  return {sectionIndex: -1, itemIndex: -1};
+}
+
+/**
+ * Gathers the cells at `indices` into one contiguous block where the `anchor`
+ * cell is, so scattered cells can be moved like a single block. Cells keep
+ * their relative order. Returns the rearranged cells and where the block starts.
+ */
+export function gatherFlatIndices<T>(
+  cells: T[],
+  indices: number[],
+  anchor: number,
+): {cells: T[]; blockStart: number} {
+  const picked = new Set(indices);
+  const block = cells.filter((_, i) => picked.has(i));
+  const gathered = cells.filter((_, i) => !picked.has(i));
+  const blockStart = anchor - indices.filter((i) => i < anchor).length;
+  gathered.splice(blockStart, 0, ...block);
+  return {cells: gathered, blockStart};
+}